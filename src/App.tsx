@@ -1,13 +1,30 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { AppView, DiaryEntry as DiaryEntryType, Constellation, Star, ConstellationLine } from './types';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { AppView, AppSettings, DiaryEntry as DiaryEntryType, Constellation, Star, ConstellationLine, ConstellationDeleteMode, StarPosition, Mood, SkyFilter } from './types';
 import { CANVAS_CONSTANTS } from './types';
-import { getAllDiaryEntries, getUnassignedEntries, getAllConstellations, addDiaryEntry, createConstellation, resetAllData, createTestData } from './lib/db';
-import { findBestMatch, type MatchResult } from './lib/constellationMatcher';
-import { referenceConstellations } from './data/constellations';
-import ConstellationCanvas from './components/ConstellationCanvas/ConstellationCanvas';
+import { getAllDiaryEntries, getUnassignedEntries, getAllConstellations, addDiaryEntry, createConstellation, resetAllData, createTestData, getSettings, updateSettings, DEFAULT_SETTINGS, saveDiaryEntryEdits, deleteDiaryEntry, restoreFromTrash, purgeExpiredTrash, unlockVault, lockVault, getEntryIdsMatchingFilter, updateConstellationName, updateConstellationMatch, reorderConstellations, deleteConstellation, type ConstellationMatchFields } from './lib/db';
+import { isVaultUnlocked } from './lib/crypto';
+import { getDiaryDate } from './lib/date';
+import { findBestMatch, matchAgainst, getOverlayTransformCss, type MatchResult } from './lib/constellationMatcher';
+import { getConstellationById as getReferenceConstellationById } from './data/constellations';
+import { loadCustomConstellations } from './lib/customConstellations';
+import { createMysteryArtwork } from './lib/mysteryArt';
+import { generateDateOrderLines } from './lib/constellationLines';
+import { splitIntoGroups, getMemberCountRange, isGroupComplete, toggleMemberSelection } from './lib/grouping';
+import ConstellationCanvas, { type StarPulse } from './components/ConstellationCanvas/ConstellationCanvas';
 import ConstellationCreator from './components/ConstellationCreator/ConstellationCreator';
 import DiaryEntryComponent from './components/DiaryEntry/DiaryEntry';
 import StarDetail from './components/StarDetail/StarDetail';
+import SettingsPanel from './components/SettingsPanel/SettingsPanel';
+import EntryEditor from './components/EntryEditor/EntryEditor';
+import TrashView from './components/TrashView/TrashView';
+import UndoToast from './components/UndoToast/UndoToast';
+import VaultLock from './components/VaultLock/VaultLock';
+import SearchOverlay from './components/SearchOverlay/SearchOverlay';
+import SkyFilterBar from './components/SkyFilterBar/SkyFilterBar';
+import CustomConstellationEditor from './components/CustomConstellationEditor/CustomConstellationEditor';
+import MemberPicker from './components/MemberPicker/MemberPicker';
+import ConstellationSheet from './components/ConstellationSheet/ConstellationSheet';
+import { useSkyCamera } from './hooks/useSkyCamera';
 
 import './App.css';
 
@@ -20,6 +37,18 @@ interface NewStarEffect {
   timestamp: number;
 }
 
+// ============================================
+// 判定結果から星座に保存する項目を取り出す（不思議な星座なら空）
+// ============================================
+function toMatchFields(matchResult: MatchResult | null): ConstellationMatchFields {
+  return {
+    matchedConstellationId: matchResult?.constellationId,
+    overlayTransform: matchResult?.overlayTransform,
+    matchSimilarity: matchResult?.similarity,
+    matchRarity: matchResult?.rarity,
+  };
+}
+
 // ============================================
 // メインアプリケーション
 // ============================================
@@ -31,15 +60,17 @@ function App() {
   const [entries, setEntries] = useState<DiaryEntryType[]>([]);
   const [unassignedEntries, setUnassignedEntries] = useState<DiaryEntryType[]>([]);
   const [constellations, setConstellations] = useState<Constellation[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  // パスフレーズ保護中でまだ解錠していない（星空だけを表示する）
+  // 設定を読み込むまでは null（ロック中かわからないので UI を出さない）
+  const [isLocked, setIsLocked] = useState<boolean | null>(null);
 
-  // ----- カメラ（スワイプ）状態 -----
+  // ----- 中央に表示している星座グループ -----
   const [currentConstellationIndex, setCurrentConstellationIndex] = useState(0);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragDelta, setDragDelta] = useState(0);
-  const dragStartX = useRef(0);
 
   // ----- 画面サイズ（中央配置用） -----
   const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 400);
+  const [windowHeight, setWindowHeight] = useState(typeof window !== 'undefined' ? window.innerHeight : 800);
 
   // ----- デバッグモード -----
   const [debugMode, setDebugMode] = useState(false);
@@ -47,100 +78,96 @@ function App() {
   // 星座1つあたりの幅（px）- 共通定数を使用
   const CONSTELLATION_WIDTH = CANVAS_CONSTANTS.CONSTELLATION_WIDTH;
 
-  // ----- カメラオフセット（イージング付き） -----
-  const [cameraOffset, setCameraOffset] = useState(() => {
-    const initialCenterOffset = windowWidth / 2 - CONSTELLATION_WIDTH / 2;
-    return initialCenterOffset;
-  });
-  const cameraOffsetRef = useRef(cameraOffset);
-  const animationFrameRef = useRef<number | null>(null);
-
   // ----- 新しい星エフェクト -----
   const [newStarEffect, setNewStarEffect] = useState<NewStarEffect | null>(null);
 
+  // ----- 検索で選んだ星のパルス -----
+  const [starPulse, setStarPulse] = useState<StarPulse | null>(null);
+
   //-----選択中の星野データがここに入る-----
   const [selectedEntry, setSelectedEntry] = useState<DiaryEntryType | null>(null);
 
+  // ----- 編集中の日記エントリ -----
+  const [editingEntry, setEditingEntry] = useState<DiaryEntryType | null>(null);
+
+  // ----- 削除直後の「元に戻す」トースト -----
+  const [undoToast, setUndoToast] = useState<{ trashId: number; message: string } | null>(null);
+
   // ----- Canvas用の星データ -----
   const [canvasStars, setCanvasStars] = useState<Star[]>([]);
 
+  // ----- 星空の絞り込み（タグ・気分） -----
+  const [skyFilter, setSkyFilter] = useState<SkyFilter>({ tag: null, mood: null });
+  const [filterMatches, setFilterMatches] = useState<Set<number> | null>(null);
+  const isSkyFilterActive = skyFilter.tag !== null || skyFilter.mood !== null;
+
   // ----- 星座の線データ -----
   const [canvasLines, setCanvasLines] = useState<ConstellationLine[]>([]);
 
+  // ----- 星座にする星（作成画面で選ぶ。選び終えるまでは星空で選んだ星を強調する） -----
+  const [memberIds, setMemberIds] = useState<number[]>([]);
+  const [areMembersConfirmed, setAreMembersConfirmed] = useState(false);
+  const isPickingMembers = view === 'constellation' && !areMembersConfirmed;
+
   // ----- 星座判定結果（星座インデックス → 判定結果）-----
   const [matchResults, setMatchResults] = useState<Map<number, MatchResult>>(new Map());
+  // ----- 不思議な星座のイラスト（星座インデックス → SVG の data URL）-----
+  const [mysteryArtworks, setMysteryArtworks] = useState<Map<number, string>>(new Map());
 
   // Note: entryById was removed as it was unused
 
-  // 星座の総数（未割り当てエントリも1グループとしてカウント、ただし星が0個なら表示しない）
-  const totalConstellationGroups = entries.length === 0 ? 0 : constellations.length + (unassignedEntries.length > 0 ? 1 : 0);
-
-  // 現在のカメラオフセットを計算（星座を画面中央に配置）
-  // 星座の中心を画面中央に合わせる: 画面幅の半分 - 星座の中心位置
-  const centerOffset = windowWidth / 2 - CONSTELLATION_WIDTH / 2;
-  const targetCameraOffset = -currentConstellationIndex * CONSTELLATION_WIDTH + centerOffset;
-
-  // カメラオフセットをなめらかに補間
-  const cancelCameraAnimation = () => {
-    if (animationFrameRef.current !== null) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-  };
-
-  useEffect(() => {
-    cameraOffsetRef.current = cameraOffset;
-  }, [cameraOffset]);
-
-  useEffect(() => {
-    const target = isDragging ? targetCameraOffset + dragDelta : targetCameraOffset;
-
-    if (isDragging) {
-      cancelCameraAnimation();
-      setCameraOffset(target);
-      return;
-    }
-
-    if (Math.abs(target - cameraOffsetRef.current) < 0.5) {
-      cancelCameraAnimation();
-      setCameraOffset(target);
-      return;
-    }
-
-    const from = cameraOffsetRef.current;
-    const duration = 500;
-    const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
-    let start: number | null = null;
-
-    const step = (timestamp: number) => {
-      if (start === null) start = timestamp;
-      const progress = Math.min((timestamp - start) / duration, 1);
-      const eased = easeOutCubic(progress);
-      const nextOffset = from + (target - from) * eased;
-      setCameraOffset(nextOffset);
+  // 作成中の星座グループ（設定のまとめ方で未割り当てエントリを分けたもの）
+  const unassignedGroups = useMemo(
+    () => splitIntoGroups(unassignedEntries, settings),
+    [unassignedEntries, settings]
+  );
 
-      if (progress < 1) {
-        animationFrameRef.current = requestAnimationFrame(step);
-      } else {
-        animationFrameRef.current = null;
-      }
-    };
+  // 星座の総数（作成中のグループも含める、ただし星が0個なら表示しない）
+  const totalConstellationGroups = entries.length === 0 ? 0 : constellations.length + unassignedGroups.length;
 
-    cancelCameraAnimation();
-    animationFrameRef.current = requestAnimationFrame(step);
+  // 星座にできる最初の作成中グループ（なければ -1）
+  const completableGroupOffset = unassignedGroups.findIndex((group) =>
+    isGroupComplete(group, settings, getDiaryDate(new Date(), settings.dayEndHour))
+  );
+  const memberCountRange = getMemberCountRange(settings);
+  // 星座に入れられる星（週ごとならその週の星、件数ごとなら未割り当てのすべての星から選べる）
+  const memberCandidates = settings.constellationGrouping === 'week'
+    ? unassignedGroups[completableGroupOffset] ?? []
+    : unassignedEntries;
+  // 選んだエントリ（日付順）
+  // 星座作成の演出はこの配列が変わるとやり直すので、再レンダリングのたびに作り直さない
+  const selectedMembers = useMemo(
+    () => unassignedEntries.filter((e) => memberIds.includes(e.id!)),
+    [unassignedEntries, memberIds]
+  );
 
-    return cancelCameraAnimation;
-  }, [dragDelta, isDragging, targetCameraOffset]);
+  // ----- カメラ（スワイプ・ピンチ・ホイールで動かす。イージング付き） -----
+  const skyCamera = useSkyCamera({
+    groupIndex: currentConstellationIndex,
+    onGroupIndexChange: setCurrentConstellationIndex,
+    groupCount: totalConstellationGroups,
+    viewportWidth: windowWidth,
+    viewportHeight: windowHeight,
+    enabled: view === 'home',
+  });
+  const { camera } = skyCamera;
 
-  useEffect(() => () => cancelCameraAnimation(), []);
+  // 全体表示で各星座グループの上に出す名前
+  const groupLabels = useMemo(
+    () => [...constellations.map((c) => c.name), ...unassignedGroups.map(() => '作成中')],
+    [constellations, unassignedGroups]
+  );
 
   // データの読み込み
   const loadData = useCallback(async () => {
-    const [allEntries, unassigned, allConstellations] = await Promise.all([
+    const [allEntries, unassigned, allConstellations, loadedSettings] = await Promise.all([
       getAllDiaryEntries(),
       getUnassignedEntries(),
       getAllConstellations(),
+      getSettings(),
     ]);
+    setSettings(loadedSettings);
+    setIsLocked(loadedSettings.vault !== null && !isVaultUnlocked());
     setEntries(allEntries);
     setUnassignedEntries(unassigned);
     setConstellations(allConstellations);
@@ -155,12 +182,15 @@ function App() {
       });
     });
 
-    // 未割り当てエントリは最後のグループ（作成中の星座）に配置
+    // 未割り当てエントリは設定のまとめ方で分け、完成した星座の後ろに作成中のグループとして配置
     const unassignedGroupIndex = allConstellations.length;
-    unassigned.forEach((entry) => {
-      if (entry.id) {
-        entryIdToGroupIndex.set(entry.id, unassignedGroupIndex);
-      }
+    const unassignedGroups = splitIntoGroups(unassigned, loadedSettings);
+    unassignedGroups.forEach((group, offset) => {
+      group.forEach((entry) => {
+        if (entry.id) {
+          entryIdToGroupIndex.set(entry.id, unassignedGroupIndex + offset);
+        }
+      });
     });
 
     // エントリIDからグローバルインデックスへのマッピング（線描画用）
@@ -208,10 +238,12 @@ function App() {
 
       return {
         entryId: entry.id!,
+        groupIndex,
         // 星座グループに基づいてX座標をオフセット
         x: (entry.starPosition.x * CANVAS_CONSTANTS.STAR_AREA_WIDTH) + groupIndex * CONSTELLATION_WIDTH + CANVAS_CONSTANTS.PADDING_X,
         y: entry.starPosition.y * CANVAS_CONSTANTS.STAR_AREA_HEIGHT + CANVAS_CONSTANTS.PADDING_Y_TOP,
-        brightness: 200,
+        // 失われた星は暗く表示する
+        brightness: entry.isLost ? 60 : 200,
         size: clampedMemoLength,
         isOldest,
         isNewest,
@@ -237,63 +269,74 @@ function App() {
       });
     });
 
-    const unassignedIds = new Set(unassigned.map(u => u.id));
-
-    // allEntriesを走査して、隣り合う星が両方「未割り当て」なら線を引く
-    for (let i = 1; i < allEntries.length; i++) {
-      const prev = allEntries[i - 1];
-      const curr = allEntries[i];
-
-      if (unassignedIds.has(prev.id) && unassignedIds.has(curr.id)) {
-        const prevGroup = Math.floor((i - 1) / 7);
-        const currGroup = Math.floor(i / 7);
-        if (prevGroup === currGroup) {
-          // 両方のIDが entryIdToGlobalIndex に存在することを確認して push
-          const fromIdx = entryIdToGlobalIndex.get(prev.id!) ?? -1;
-          const toIdx = entryIdToGlobalIndex.get(curr.id!) ?? -1;
-          // p5アニメーション完了まで待機（約1.7秒かかるので2秒の猶予を設定）
-          const isVeryNew = new Date().getTime() - new Date(curr.createdAt).getTime() < 2000; // 2秒以内
-          const isLastEdge = (i === allEntries.length - 1);
-
-          if (isLastEdge && isVeryNew) {//一番最新の線が1秒以内につくられたならスキップ
-            // 新しく作った直後だけは React 側で線を引かない！
-            // これにより、p5側のアニメーションが優先される
-            continue;
-          }
-
-          if (fromIdx !== -1 && toIdx !== -1) {
-            lines.push({ fromIndex: fromIdx, toIndex: toIdx });
-          }
+    // 作成中のグループごとに、未割り当ての星を日付順につなぐ（星座に選ばれずに残った星どうしもつながる）
+    unassignedGroups.forEach((group) => {
+      for (let i = 1; i < group.length; i++) {
+        const prev = group[i - 1];
+        const curr = group[i];
+
+        // 両方のIDが entryIdToGlobalIndex に存在することを確認して push
+        const fromIdx = entryIdToGlobalIndex.get(prev.id!) ?? -1;
+        const toIdx = entryIdToGlobalIndex.get(curr.id!) ?? -1;
+        // p5アニメーション完了まで待機（約1.7秒かかるので2秒の猶予を設定）
+        const isVeryNew = new Date().getTime() - new Date(curr.createdAt).getTime() < 2000; // 2秒以内
+        const isLastEdge = (curr === unassigned[unassigned.length - 1]);
+
+        if (isLastEdge && isVeryNew) {//一番最新の線が1秒以内につくられたならスキップ
+          // 新しく作った直後だけは React 側で線を引かない！
+          // これにより、p5側のアニメーションが優先される
+          continue;
+        }
+
+        if (fromIdx !== -1 && toIdx !== -1) {
+          lines.push({ fromIndex: fromIdx, toIndex: toIdx });
         }
       }
-    }
+    });
     setCanvasLines(lines);
 
     // DBに保存された判定結果からmatchResultsを復元
+    // （ユーザーが作った星座の形も解決できるよう、先にレジストリへ読み込む）
+    await loadCustomConstellations();
     const restoredMatchResults = new Map<number, MatchResult>();
+    const restoredMysteryArtworks = new Map<number, string>();
     allConstellations.forEach((constellation, index) => {
-      if (constellation.matchedConstellationId) {
-        // constellations.tsから該当の星座データを取得
-        const refConstellation = referenceConstellations.find(
-          c => c.id === constellation.matchedConstellationId
-        );
-        if (refConstellation) {
-          restoredMatchResults.set(index, {
-            constellationId: refConstellation.id,
-            constellationName: refConstellation.name,
-            similarity: 1, // 保存済みなので類似度は1とする
-            svgPath: refConstellation.svgPath,
-          });
+      const starPositions = constellation.entryIds
+        .map((id) => allEntries.find((e) => e.id === id)?.starPosition)
+        .filter((p): p is StarPosition => p !== undefined);
+      // 組み込み・ユーザー作成の星座データから該当するものを取得
+      const refConstellation = constellation.matchedConstellationId
+        ? getReferenceConstellationById(constellation.matchedConstellationId)
+        : undefined;
+
+      if (!refConstellation) {
+        // どの形にも似ていなかった星座（判定に使った形が消された星座も）は、星の配置から描いたイラストを重ねる
+        if (starPositions.length > 0) {
+          restoredMysteryArtworks.set(index, createMysteryArtwork(starPositions, constellation.lines));
         }
+        return;
       }
+
+      // 類似度や重ね合わせの変換がない古い星座は、星の位置から求め直す
+      const needsRematch = constellation.overlayTransform === undefined || constellation.matchSimilarity === undefined;
+      const rematched = needsRematch ? matchAgainst(starPositions, refConstellation.id) : null;
+      restoredMatchResults.set(index, {
+        constellationId: refConstellation.id,
+        constellationName: refConstellation.name,
+        similarity: constellation.matchSimilarity ?? rematched?.similarity ?? 1,
+        svgPath: refConstellation.svgPath,
+        overlayTransform: constellation.overlayTransform ?? rematched?.overlayTransform,
+        rarity: constellation.matchRarity,
+      });
     });
     setMatchResults(restoredMatchResults);
+    setMysteryArtworks(restoredMysteryArtworks);
 
     // リロード時の初期インデックスを決定
-    // 未割り当てエントリがあれば作成中の星座グループを表示
+    // 未割り当てエントリがあれば最新の作成中の星座グループを表示
     // なければ最後の完成した星座を表示（星座がなければ0）
-    const initialIndex = unassigned.length > 0
-      ? allConstellations.length
+    const initialIndex = unassignedGroups.length > 0
+      ? allConstellations.length + unassignedGroups.length - 1
       : Math.max(0, allConstellations.length - 1);
     setCurrentConstellationIndex(initialIndex);
   }, []);
@@ -320,68 +363,100 @@ function App() {
     loadData();
   }, [loadData]);
 
+  // 絞り込み条件に一致するエントリをインデックスから取得（データ更新時も取り直す）
+  useEffect(() => {
+    if (!isSkyFilterActive) return;
+    let cancelled = false;
+    getEntryIdsMatchingFilter(skyFilter)
+      .then((ids) => {
+        if (!cancelled) setFilterMatches(ids);
+      })
+      .catch((error) => console.error('絞り込みに失敗しました:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [skyFilter, isSkyFilterActive, entries]);
+
+  // 絞り込みに一致しない星を暗くした描画用の星データ
+  // 星座にする星を選んでいる間は、選んでいない未割り当ての星を暗くする
+  const displayedStars = useMemo(() => {
+    if (isPickingMembers) {
+      const unassignedIds = new Set(unassignedEntries.map((e) => e.id));
+      return canvasStars.map((star) => ({
+        ...star,
+        dimmed: unassignedIds.has(star.entryId) && !memberIds.includes(star.entryId),
+      }));
+    }
+    if (!isSkyFilterActive || !filterMatches) return canvasStars;
+    return canvasStars.map((star) => ({ ...star, dimmed: !filterMatches.has(star.entryId) }));
+  }, [canvasStars, filterMatches, isSkyFilterActive, isPickingMembers, unassignedEntries, memberIds]);
+
+  // 描画用の線データ
+  // 星座にする星を選んでいる間は、未割り当ての星の線を選んだ星どうしの線に置き換える
+  const displayedLines = useMemo(() => {
+    if (!isPickingMembers) return canvasLines;
+    const unassignedIndices = new Set<number>();
+    entries.forEach((entry, index) => {
+      if (unassignedEntries.some((e) => e.id === entry.id)) unassignedIndices.add(index);
+    });
+    const memberIndices = unassignedEntries
+      .filter((e) => memberIds.includes(e.id!))
+      .map((member) => entries.findIndex((e) => e.id === member.id));
+    return [
+      ...canvasLines.filter((line) => !unassignedIndices.has(line.fromIndex) || !unassignedIndices.has(line.toIndex)),
+      ...generateDateOrderLines(memberIndices.length).map((line) => ({
+        fromIndex: memberIndices[line.fromIndex],
+        toIndex: memberIndices[line.toIndex],
+      })),
+    ];
+  }, [canvasLines, entries, isPickingMembers, unassignedEntries, memberIds]);
+
+  // 絞り込みバーに出すタグ（使われている回数の多い順）
+  const availableTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    entries.forEach((entry) => entry.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!);
+  }, [entries]);
+
+  // 起動時に保存期間を過ぎたゴミ箱の中身を完全に削除
+  useEffect(() => {
+    getSettings()
+      .then(({ trashRetentionDays }) => purgeExpiredTrash(trashRetentionDays))
+      .catch((error) => console.error('ゴミ箱の整理に失敗しました:', error));
+  }, []);
+
   // ウィンドウサイズ変更時に更新
   useEffect(() => {
     const handleResize = () => {
       setWindowWidth(window.innerWidth);
+      setWindowHeight(window.innerHeight);
     };
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // ============================================
-  // スワイプハンドラー (星座切り替え)
-  // ============================================
-  const handlePointerDown = (e: React.PointerEvent) => {
-    if (view !== 'home') return;
-    setIsDragging(true);
-    dragStartX.current = e.clientX;
-    setDragDelta(0);
-  };
-
-  const handlePointerMove = (e: React.PointerEvent) => {
-    if (!isDragging || view !== 'home') return;
-    const delta = e.clientX - dragStartX.current;
-    setDragDelta(delta);
-  };
-
-  const handlePointerUp = () => {
-    if (!isDragging) return;
-    setIsDragging(false);
-
-    // スワイプの閾値（この値以上スワイプしたら次/前の星座へ）
-    const SWIPE_THRESHOLD = 50;
-
-    if (dragDelta < -SWIPE_THRESHOLD && currentConstellationIndex < totalConstellationGroups - 1) {
-      // 左スワイプ → 次の星座へ
-      setCurrentConstellationIndex(prev => prev + 1);
-    } else if (dragDelta > SWIPE_THRESHOLD && currentConstellationIndex > 0) {
-      // 右スワイプ → 前の星座へ
-      setCurrentConstellationIndex(prev => prev - 1);
-    }
-
-    setDragDelta(0);
-  };
-
   // ============================================
   // DiaryEntryからのデータ受け取り → DB保存
   // ============================================
   const handleDiaryEntryComplete = async (data: {
     photoUrl: string;
     memo: string;
-    starPosition: { x: number; y: number }
+    starPosition: { x: number; y: number };
+    tags: string[];
+    mood?: Mood;
   }) => {
     // photoUrlからBlobを取得
     const response = await fetch(data.photoUrl);
     const blob = await response.blob();
 
     // 1. DBに保存
-    const today = new Date().toISOString().split('T')[0];
-    await addDiaryEntry(today, blob, data.memo, data.starPosition);
+    const today = getDiaryDate(new Date(), settings.dayEndHour);
+    await addDiaryEntry(today, blob, data.memo, data.starPosition, { tags: data.tags, mood: data.mood });
 
     // 2. 新しい星のキャンバス座標を計算（星と同じ計算方式）
-    // 未割り当てグループは constellations.length 番目
-    const groupIndex = constellations.length;
+    // 新しい星は作成中のグループの最後（週の変わり目などでは新しいグループ）に入る
+    const groupIndex = constellations.length
+      + splitIntoGroups([...unassignedEntries, { date: today }], settings).length - 1;
     const canvasX = (data.starPosition.x * CANVAS_CONSTANTS.STAR_AREA_WIDTH) + groupIndex * CONSTELLATION_WIDTH + CANVAS_CONSTANTS.PADDING_X;
     const canvasY = data.starPosition.y * CANVAS_CONSTANTS.STAR_AREA_HEIGHT + CANVAS_CONSTANTS.PADDING_Y_TOP;
 
@@ -401,6 +476,15 @@ function App() {
   // 星クリック時のハンドラー
   // ============================================
   const handleStarClick = (entryId: number) => {
+    // ロック中はメモも写真も読めないので詳細を開かない
+    if (isLocked !== false) return;
+    // 星座にする星を選んでいる間は、詳細を開かずに選択を切り替える（候補の星だけ）
+    if (isPickingMembers) {
+      if (memberCandidates.some((e) => e.id === entryId)) {
+        setMemberIds((prev) => toggleMemberSelection(prev, entryId, memberCountRange.max));
+      }
+      return;
+    }
     console.log('handleStarClick called with entryId:', entryId);
     console.log('探しているID:', entryId, typeof entryId);
     console.log('持っているリストのIDたち:', entries.map(e => ({ id: e.id, type: typeof e.id })));
@@ -414,6 +498,60 @@ function App() {
     }
   };
 
+  // ============================================
+  // 日記の編集・削除
+  // ============================================
+  const handleEditEntry = () => {
+    if (!selectedEntry) return;
+    setEditingEntry(selectedEntry);
+    setSelectedEntry(null);
+    setView('entry-edit');
+  };
+
+  const handleEntryEditSave = async (edits: { memo: string; starPosition: StarPosition; tags: string[]; mood?: Mood; photoBlob?: Blob }) => {
+    if (!editingEntry?.id) return;
+    try {
+      await saveDiaryEntryEdits(editingEntry.id, edits);
+      await loadData();
+    } catch (error) {
+      console.error('日記の保存に失敗しました:', error);
+    }
+    setEditingEntry(null);
+    setView('home');
+  };
+
+  const handleDeleteEntry = async (mode: ConstellationDeleteMode) => {
+    if (!selectedEntry?.id) return;
+    try {
+      const trashId = await deleteDiaryEntry(selectedEntry.id, mode);
+      await loadData();
+      if (trashId !== null) {
+        setUndoToast({ trashId, message: '記録を削除しました' });
+      }
+    } catch (error) {
+      console.error('日記の削除に失敗しました:', error);
+    }
+    setSelectedEntry(null);
+  };
+
+  // ============================================
+  // 元に戻す（ゴミ箱から復元）
+  // ============================================
+  const handleUndo = async () => {
+    if (!undoToast) return;
+    const { trashId } = undoToast;
+    setUndoToast(null);
+    try {
+      await restoreFromTrash(trashId);
+      await loadData();
+    } catch (error) {
+      console.error('元に戻せませんでした:', error);
+      alert(error instanceof Error ? error.message : '元に戻せませんでした');
+    }
+  };
+
+  const dismissUndoToast = useCallback(() => setUndoToast(null), []);
+
   // デバッグ: selectedEntry が更新されたタイミングをログ出力
   useEffect(() => {
     console.log('selectedEntry changed:', selectedEntry);
@@ -428,8 +566,20 @@ function App() {
         return renderHomeUI();
       case 'entry':
         return renderEntryUI();
+      case 'entry-edit':
+        return renderEntryEditUI();
       case 'constellation':
         return renderConstellationCreator();
+      case 'settings':
+        return renderSettingsUI();
+      case 'trash':
+        return renderTrashUI();
+      case 'search':
+        return renderSearchUI();
+      case 'custom-constellation':
+        return renderCustomConstellationUI();
+      case 'constellation-detail':
+        return renderConstellationDetailUI();
       default:
         return renderHomeUI();
     }
@@ -438,17 +588,22 @@ function App() {
   // ----- HOME UI -----
   const renderHomeUI = () => {
 
-    const canCreateConstellation = unassignedEntries.length >= 7;
+    const canCreateConstellation = completableGroupOffset !== -1;
+
+    // 星座の作成を始める（最初はそのグループの星を選んでおく）
+    const handleStartConstellation = () => {
+      setMemberIds(unassignedGroups[completableGroupOffset].map((e) => e.id!));
+      setAreMembersConfirmed(false);
+      skyCamera.focusGroup(constellations.length + completableGroupOffset);
+      setView('constellation');
+    };
 
     const currentGroupEntries = (() => {
       if (currentConstellationIndex < constellations.length) {
         const ids = constellations[currentConstellationIndex]?.entryIds ?? [];
         return entries.filter((e) => e.id !== undefined && ids.includes(e.id));
       }
-      if (currentConstellationIndex === constellations.length) {
-        return unassignedEntries;
-      }
-      return [];
+      return unassignedGroups[currentConstellationIndex - constellations.length] ?? [];
     })();
 
     const oldestEntry = currentGroupEntries.reduce<DiaryEntryType | null>((oldest, entry) => {
@@ -469,8 +624,8 @@ function App() {
 
     // 現在表示中の星座名を取得
     const currentConstellationName = constellations[currentConstellationIndex]?.name
-      || (currentConstellationIndex === constellations.length && unassignedEntries.length > 0
-        ? `作成中 (${unassignedEntries.length}/7)`
+      || (currentConstellationIndex >= constellations.length && currentGroupEntries.length > 0
+        ? `作成中 (${currentGroupEntries.length}/${memberCountRange.max})`
         : '');
 
     // テストデータ作成
@@ -482,10 +637,15 @@ function App() {
 
     // データリセット
     const handleResetData = async () => {
-      await resetAllData();
+      if (!confirm('すべてのデータを削除します。よろしいですか？（ゴミ箱から元に戻せます）')) return;
+      const trashId = await resetAllData();
       await loadData();
       setCurrentConstellationIndex(0);
       setMatchResults(new Map());
+      setMysteryArtworks(new Map());
+      if (trashId !== null) {
+        setUndoToast({ trashId, message: 'すべてのデータを削除しました' });
+      }
     };
 
     // 星座判定（デバッグ用：未割り当て星を判定）
@@ -510,13 +670,37 @@ function App() {
       <div className="ui-home">
         {/* 上部: タイトルと星座インジケーター */}
         <div className="home-header">
+          {skyCamera.canShowOverview && (
+            <button
+              className="overview-button"
+              onClick={() => (skyCamera.isOverview ? skyCamera.focusGroup(currentConstellationIndex) : skyCamera.showOverview())}
+            >
+              {skyCamera.isOverview ? '戻る' : '全体'}
+            </button>
+          )}
+          <button className="search-button" onClick={() => setView('search')} aria-label="検索">
+            🔍
+          </button>
+          <button className="settings-button" onClick={() => setView('settings')} aria-label="設定">
+            ⚙
+          </button>
           <div className="constellation-date-hero">
             {oldestYear && <span className="constellation-year">{oldestYear}</span>}
             {oldestMonthName && <span className="constellation-month">{oldestMonthName}</span>}
           </div>
           {totalConstellationGroups > 0 && (
             <div className="constellation-indicator">
-              <span className="constellation-name">{currentConstellationName}</span>
+              {currentConstellationIndex < constellations.length ? (
+                // 完成した星座は名前から管理シートを開ける
+                <button
+                  className="constellation-name constellation-name--button"
+                  onClick={() => setView('constellation-detail')}
+                >
+                  {currentConstellationName}
+                </button>
+              ) : (
+                <span className="constellation-name">{currentConstellationName}</span>
+              )}
               <div className="constellation-dots">
                 {Array.from({ length: totalConstellationGroups }).map((_, i) => (
                   <span
@@ -529,6 +713,15 @@ function App() {
           )}
         </div>
 
+        {(availableTags.length > 0 || isSkyFilterActive || entries.some((e) => e.mood)) && (
+          <SkyFilterBar
+            filter={skyFilter}
+            tags={availableTags}
+            matchCount={filterMatches && isSkyFilterActive ? filterMatches.size : null}
+            onChange={setSkyFilter}
+          />
+        )}
+
         {/* 中央: 星座表示エリア（空白） */}
         <div className="home-center" />
 
@@ -539,7 +732,7 @@ function App() {
           </button>
 
           {canCreateConstellation && (
-            <button className="btn btn-secondary" onClick={() => setView('constellation')}>
+            <button className="btn btn-secondary" onClick={handleStartConstellation}>
               星座を作成
             </button>
           )}
@@ -551,7 +744,7 @@ function App() {
             <div className="debug-info">
               <p>星座数: {constellations.length} | 未割当: {unassignedEntries.length}</p>
               <p>現在Index: {currentConstellationIndex} | 幅: {CONSTELLATION_WIDTH}px</p>
-              <p>カメラOffset: {cameraOffset.toFixed(1)}px</p>
+              <p>カメラ: ({camera.x.toFixed(1)}, {camera.y.toFixed(1)}) × {camera.scale.toFixed(2)}</p>
             </div>
             <div className="debug-buttons">
               <button onClick={handleCreateTestData}>🧪 テストデータ作成</button>
@@ -580,19 +773,174 @@ function App() {
     />
   );
 
+  // ----- ENTRY EDIT UI -----
+  const renderEntryEditUI = () => {
+    if (!editingEntry) return null;
+    return (
+      <EntryEditor
+        key={editingEntry.id}
+        entry={editingEntry}
+        onSave={handleEntryEditSave}
+        onCancel={() => {
+          setEditingEntry(null);
+          setView('home');
+        }}
+      />
+    );
+  };
+
+  // ----- SETTINGS UI -----
+  const handleSettingsChange = async (updates: Partial<AppSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    await updateSettings(updates);
+    // まとめ方や星の数が変わると作成中のグループの並びが変わるので描き直す
+    if (updates.constellationGrouping !== undefined || updates.constellationSize !== undefined) {
+      await loadData();
+    }
+  };
+
+  const renderSettingsUI = () => (
+    <SettingsPanel
+      settings={settings}
+      onSettingsChange={handleSettingsChange}
+      onDataChanged={loadData}
+      onOpenTrash={() => setView('trash')}
+      onOpenCustomConstellations={() => setView('custom-constellation')}
+      onLock={handleLock}
+      onClose={() => setView('home')}
+    />
+  );
+
+  // ----- SEARCH UI -----
+  // 選んだ記録の星がある星座グループまでカメラを動かし、星をパルスさせる
+  const handleSearchSelect = (entry: DiaryEntryType) => {
+    const star = canvasStars.find((s) => s.entryId === entry.id);
+    setView('home');
+    if (!star) return;
+    skyCamera.focusGroup(star.groupIndex);
+    setStarPulse({ entryId: star.entryId, timestamp: Date.now() });
+  };
+
+  const renderSearchUI = () => (
+    <SearchOverlay
+      entries={entries}
+      onSelect={handleSearchSelect}
+      onClose={() => setView('home')}
+    />
+  );
+
+  // ----- VAULT LOCK -----
+  const handleUnlock = async (passphrase: string) => {
+    await unlockVault(passphrase);
+    await loadData();
+  };
+
+  const handleLock = async () => {
+    lockVault();
+    setSelectedEntry(null);
+    setEditingEntry(null);
+    setView('home');
+    await loadData();
+  };
+
+  // ----- TRASH UI -----
+  const renderTrashUI = () => (
+    <TrashView
+      retentionDays={settings.trashRetentionDays}
+      onRestored={loadData}
+      onClose={() => setView('settings')}
+    />
+  );
+
+  // ----- CUSTOM CONSTELLATION UI -----
+  const renderCustomConstellationUI = () => (
+    <CustomConstellationEditor
+      onChanged={loadData}
+      onClose={() => setView('settings')}
+    />
+  );
+
+  // ----- CONSTELLATION DETAIL UI -----
+  const renderConstellationDetailUI = () => {
+    const index = currentConstellationIndex;
+    const constellation = constellations[index];
+    if (!constellation?.id) return renderHomeUI();
+    const id = constellation.id;
+
+    const starPositions = constellation.entryIds
+      .map((entryId) => entries.find((e) => e.id === entryId)?.starPosition)
+      .filter((p): p is StarPosition => p !== undefined);
+
+    const handleRename = async (name: string) => {
+      await updateConstellationName(id, name);
+      await loadData();
+      setCurrentConstellationIndex(index);
+    };
+
+    const handleMatchChange = async (result: MatchResult | null) => {
+      await updateConstellationMatch(id, toMatchFields(result));
+      await loadData();
+      setCurrentConstellationIndex(index);
+    };
+
+    // 隣の星座と入れ替え、カメラも一緒に動かす
+    const handleMove = async (direction: -1 | 1) => {
+      const orderedIds = constellations.map((c) => c.id!);
+      [orderedIds[index], orderedIds[index + direction]] = [orderedIds[index + direction], orderedIds[index]];
+      await reorderConstellations(orderedIds);
+      await loadData();
+      setCurrentConstellationIndex(index + direction);
+    };
+
+    const handleDissolve = async () => {
+      const trashId = await deleteConstellation(id);
+      await loadData();
+      setView('home');
+      if (trashId !== null) {
+        setUndoToast({ trashId, message: '星座を解きました' });
+      }
+    };
+
+    return (
+      <ConstellationSheet
+        key={id}
+        constellation={constellation}
+        starPositions={starPositions}
+        matchResult={matchResults.get(index) ?? null}
+        canMoveLeft={index > 0}
+        canMoveRight={index < constellations.length - 1}
+        onRename={handleRename}
+        onMatchChange={handleMatchChange}
+        onMove={handleMove}
+        onDissolve={handleDissolve}
+        onClose={() => setView('home')}
+      />
+    );
+  };
+
   // ----- CONSTELLATION CREATOR -----
   //switsh文で呼び出し
   // ----- CONSTELLATION CREATOR -----
   const renderConstellationCreator = () => {
-    // 7件のエントリを使って星座作成
-    const entriesToUse = unassignedEntries.slice(0, 7);
+    // まず星座にする星を選ぶ
+    if (!areMembersConfirmed) {
+      return (
+        <MemberPicker
+          entries={memberCandidates}
+          selectedIds={memberIds}
+          minCount={memberCountRange.min}
+          maxCount={memberCountRange.max}
+          onChange={setMemberIds}
+          onConfirm={() => setAreMembersConfirmed(true)}
+          onCancel={() => setView('home')}
+        />
+      );
+    }
 
     const handleConstellationComplete = async (name: string, lines: ConstellationLine[], matchResult: MatchResult | null) => {
-      const matchedId = matchResult?.constellationId;
-
       // DBに星座を保存
-      const entryIds = entriesToUse.map(e => e.id!);
-      await createConstellation(name, entryIds, lines, matchedId);
+      const entryIds = selectedMembers.map(e => e.id!);
+      await createConstellation(name, entryIds, lines, toMatchFields(matchResult));
 
       if (matchResult) {
         const newConstellationIndex = constellations.length;
@@ -608,70 +956,100 @@ function App() {
 
     return (
       <ConstellationCreator
-        entries={entriesToUse}
+        entries={selectedMembers}
         onComplete={handleConstellationComplete}
         onCancel={() => setView('home')}
       />
     );
   };
 
+  // ----- 星座のイラストのオーバーレイ -----
+  const renderArtworkOverlay = (constellationIndex: number, src: string, alt: string, transform?: string) => (
+    <div
+      key={`${constellationIndex}-${alt}`}
+      className="constellation-svg-overlay"
+      style={{
+        position: 'absolute',
+        left: `${constellationIndex * CONSTELLATION_WIDTH + CANVAS_CONSTANTS.PADDING_X}px`,
+        top: `${CANVAS_CONSTANTS.PADDING_Y_TOP}px`,
+        width: `${CANVAS_CONSTANTS.STAR_AREA_WIDTH}px`,
+        height: `${CANVAS_CONSTANTS.STAR_AREA_HEIGHT}px`,
+        opacity: 0.3,
+        pointerEvents: 'none',
+      }}
+    >
+      <img
+        src={src}
+        alt={alt}
+        style={{ width: '100%', height: '100%', transform, transformOrigin: '0 0' }}
+      />
+    </div>
+  );
+
   // ============================================
   // メインレンダリング（3層構造）
   // ============================================
   return (
-    <div
-      className="app-container"
-      onPointerDown={handlePointerDown}
-      onPointerMove={handlePointerMove}
-      onPointerUp={handlePointerUp}
-      onPointerLeave={handlePointerUp}
-    >
+    <div className="app-container">
       {/* Layer 1: ConstellationCanvas (常駐背景) */}
-      <div className={`layer-canvas ${isDragging ? 'dragging' : ''}`}>
+      {/* カメラの操作は星空の上でだけ受け付ける（UI のボタンを押してもカメラが動かないように） */}
+      <div className={`layer-canvas ${skyCamera.isDragging ? 'dragging' : ''}`} {...skyCamera.handlers}>
         <ConstellationCanvas
-          stars={canvasStars}
-          lines={canvasLines}
-          cameraOffset={cameraOffset}
+          stars={displayedStars}
+          lines={displayedLines}
+          camera={camera}
           newStarEffect={newStarEffect}
+          starPulse={starPulse}
           onStarClick={handleStarClick}
           onAnimationComplete={handleAnimationComplete}
-          width={window.innerWidth}
-          height={window.innerHeight}
+          width={windowWidth}
+          height={windowHeight}
           debugMode={debugMode}
           constellationWidth={CONSTELLATION_WIDTH}
-          constellationCount={constellations.length}
+          groupCount={totalConstellationGroups}
+          groupLabels={groupLabels}
         />
-        {/* 星座判定結果のSVGオーバーレイ（各星座に対応） */}
-        {Array.from(matchResults.entries()).map(([constellationIndex, result]) => (
-          <div
-            key={constellationIndex}
-            className="constellation-svg-overlay"
-            style={{
-              position: 'absolute',
-              left: `${constellationIndex * CONSTELLATION_WIDTH + cameraOffset + CANVAS_CONSTANTS.PADDING_X}px`,
-              top: `${CANVAS_CONSTANTS.PADDING_Y_TOP}px`,
-              width: `${CANVAS_CONSTANTS.STAR_AREA_WIDTH}px`,
-              height: `${CANVAS_CONSTANTS.STAR_AREA_HEIGHT}px`,
-              opacity: 0.3,
-              pointerEvents: 'none',
-            }}
-          >
-            <img
-              src={result.svgPath}
-              alt={result.constellationName}
-              style={{ width: '100%', height: '100%' }}
-            />
-          </div>
-        ))}
+        {/* イラストは星空の座標で置き、カメラと同じように動かす */}
+        <div
+          className="constellation-svg-layer"
+          style={{ transform: `translate(${camera.x}px, ${camera.y}px) scale(${camera.scale})` }}
+        >
+          {/* 星座判定結果のSVGオーバーレイ（各星座に対応） */}
+          {Array.from(matchResults.entries()).map(([constellationIndex, result]) =>
+            renderArtworkOverlay(
+              constellationIndex,
+              result.svgPath,
+              result.constellationName,
+              // 判定時に求めた変換で、イラストを実際の星の位置に重ねる
+              getOverlayTransformCss(result.overlayTransform)
+            )
+          )}
+          {/* 不思議な星座のイラスト（星描画領域にそのまま描いてあるので変換なし） */}
+          {Array.from(mysteryArtworks.entries()).map(([constellationIndex, artwork]) =>
+            renderArtworkOverlay(constellationIndex, artwork, '不思議な星座')
+          )}
+        </div>
       </div>
 
       {/* Layer 2: UIOverlay */}
       <div className="layer-ui">
-        {renderUIOverlay()}
-        {selectedEntry && (
+        {isLocked === true && <VaultLock onUnlock={handleUnlock} />}
+        {isLocked === false && renderUIOverlay()}
+        {isLocked === false && selectedEntry && (
           <StarDetail
+            key={selectedEntry.id}
             entry={selectedEntry}
             onClose={() => setSelectedEntry(null)}
+            onEdit={handleEditEntry}
+            onDelete={handleDeleteEntry}
+          />
+        )}
+        {undoToast && (
+          <UndoToast
+            key={undoToast.trashId}
+            message={undoToast.message}
+            onUndo={handleUndo}
+            onDismiss={dismissUndoToast}
           />
         )}
       </div>
@@ -1,7 +1,7 @@
 import { useMemo, useRef, useEffect } from 'react';
 import type p5 from 'p5';
 import { useP5, type Sketch } from '../../hooks/useP5';
-import type { Star, ConstellationLine, OnStarClick } from '../../types';
+import type { Star, ConstellationLine, OnStarClick, Camera } from '../../types';
 import { CANVAS_CONSTANTS } from '../../types';
 import './ConstellationCanvas.css';
 
@@ -14,6 +14,24 @@ interface NewStarEffect {
   timestamp: number;
 }
 
+// ============================================
+// 星のパルス（検索で選んだ星の強調表示）
+// ============================================
+export interface StarPulse {
+  entryId: number;
+  /** 値が変わるたびにパルスをやり直す */
+  timestamp: number;
+}
+
+/** パルスを表示する時間（ミリ秒） */
+const PULSE_DURATION = 4000;
+
+/** 拡大縮小していないカメラ */
+const DEFAULT_CAMERA: Camera = { x: 0, y: 0, scale: 1 };
+
+/** 全体表示の星座名の文字の大きさ（画面上の px） */
+const GROUP_LABEL_SIZE = 16;
+
 // ============================================
 // パーティクル（星追加時のエフェクト用）
 // ============================================
@@ -45,16 +63,20 @@ interface ConstellationCanvasProps {
   starColor?: string;
   /** 線の色 */
   lineColor?: string;
-  /** カメラのX方向オフセット（スワイプ用） */
-  cameraOffset?: number;
+  /** カメラ（スワイプ・拡大縮小） */
+  camera?: Camera;
+  /** 星座グループの名前（全体表示のときに各グループの上に表示） */
+  groupLabels?: string[];
   /** 新しい星のエフェクト */
   newStarEffect?: NewStarEffect | null;
+  /** パルスさせる星 */
+  starPulse?: StarPulse | null;
   /** デバッグモード（領域表示） */
   debugMode?: boolean;
   /** 星座の幅（デバッグ表示用） */
   constellationWidth?: number;
-  /** 星座の数（デバッグ表示用） */
-  constellationCount?: number;
+  /** 星座グループの数・作成中のグループを含む（デバッグ表示用） */
+  groupCount?: number;
   //星座完成時にコールバック
   onAnimationComplete?: (fromIdx: number, toIdx: number) => void;
 }
@@ -71,21 +93,25 @@ export function ConstellationCanvas({
   backgroundColor = '#0a0a20',
   starColor = '#e8eeffd1',
   lineColor = '#4a6fa5',
-  cameraOffset = 0,
+  camera = DEFAULT_CAMERA,
+  groupLabels = [],
   newStarEffect = null,
+  starPulse = null,
   debugMode = false,
   constellationWidth = CANVAS_CONSTANTS.CONSTELLATION_WIDTH,
-  constellationCount = 0,
+  groupCount = 0,
   onAnimationComplete
 }: ConstellationCanvasProps) {
   // 外部からの値を p5 スケッチ内で参照するための ref
   const starsRef = useRef(stars);
   const linesRef = useRef(lines);
-  const cameraOffsetRef = useRef(cameraOffset);
+  const cameraRef = useRef(camera);
+  const groupLabelsRef = useRef(groupLabels);
   const newStarEffectRef = useRef(newStarEffect);
+  const starPulseRef = useRef(starPulse);
   const debugModeRef = useRef(debugMode);
   const constellationWidthRef = useRef(constellationWidth);
-  const constellationCountRef = useRef(constellationCount);
+  const groupCountRef = useRef(groupCount);
   const latestOnAnimationComplete = useRef(onAnimationComplete);
   //追加したよ
   const latestOnStarClick = useRef(onStarClick);
@@ -99,13 +125,21 @@ export function ConstellationCanvas({
   }, [lines]);
 
   useEffect(() => {
-    cameraOffsetRef.current = cameraOffset;
-  }, [cameraOffset]);
+    cameraRef.current = camera;
+  }, [camera]);
+
+  useEffect(() => {
+    groupLabelsRef.current = groupLabels;
+  }, [groupLabels]);
 
   useEffect(() => {
     newStarEffectRef.current = newStarEffect;
   }, [newStarEffect]);
 
+  useEffect(() => {
+    starPulseRef.current = starPulse;
+  }, [starPulse]);
+
   useEffect(() => {
     debugModeRef.current = debugMode;
   }, [debugMode]);
@@ -120,8 +154,8 @@ export function ConstellationCanvas({
   }, [onStarClick]);
 
   useEffect(() => {
-    constellationCountRef.current = constellationCount;
-  }, [constellationCount]);
+    groupCountRef.current = groupCount;
+  }, [groupCount]);
 
   useEffect(() => {
     latestOnAnimationComplete.current = onAnimationComplete;
@@ -154,6 +188,11 @@ export function ConstellationCanvas({
       let lastEffectTimestamp = 0;
       let backgroundGradient: CanvasGradient | null = null;
 
+      // 星のパルス
+      let lastPulseTimestamp = 0;
+      let pulseEntryId: number | null = null;
+      let pulseStartedAt = 0;
+
       //星座アニメーションにつかう
       let animProgress = 0; // 0（開始）から 1（完了）まで増える数字
       let animatingLine: { fromId: number; toId: number; x1: number; y1: number; x2: number; y2: number } | null = null;
@@ -200,13 +239,14 @@ export function ConstellationCanvas({
       };
 
       p.draw = () => {
-        const currentCameraOffset = cameraOffsetRef.current;
+        const currentCamera = cameraRef.current;
         const currentStars = starsRef.current;
         const currentLines = linesRef.current;
         const currentEffect = newStarEffectRef.current;
+        const currentPulse = starPulseRef.current;
         const isDebugMode = debugModeRef.current;
         const constWidth = constellationWidthRef.current;
-        const constCount = constellationCountRef.current;
+        const groupCount = groupCountRef.current;
 
         if (currentStars.length > lastKnownStarCount) {
           // 最初の起動時（0から増えた時）はアニメーションさせないためのガード
@@ -216,7 +256,8 @@ export function ConstellationCanvas({
             newestStar = sorted[0];
             previousStar = sorted[1];
 
-            const isNewConstellationFirstStar = (currentStars.length % 7 === 1);
+            // 新しい星が前の星と別のグループ（新しい星座の最初の星）なら線は引かない
+            const isNewConstellationFirstStar = newestStar?.groupIndex !== previousStar?.groupIndex;
             if (newestStar && previousStar && !isNewConstellationFirstStar) {
               // 線を引くアニメーションの準備
               animatingLine = {
@@ -232,6 +273,9 @@ export function ConstellationCanvas({
           }
           // 数を同期させる（これ以上 if 文に入らないようにする）
           lastKnownStarCount = currentStars.length;
+        } else if (currentStars.length < lastKnownStarCount) {
+          // 星が削除された場合は数だけ合わせる（次に追加されたときにアニメーションさせるため）
+          lastKnownStarCount = currentStars.length;
         }
 
         // 背景（紫系のグラデーション）
@@ -241,9 +285,10 @@ export function ConstellationCanvas({
         ctx.fillRect(0, 0, width, height);
         ctx.restore();
 
-        // カメラ変換を適用
+        // カメラ変換を適用（以降はワールド座標で描く）
         p.push();
-        p.translate(currentCameraOffset, 0);
+        p.translate(currentCamera.x, currentCamera.y);
+        p.scale(currentCamera.scale);
 
         // ---- 新しい星のエフェクト処理 ----
         if (currentEffect && currentEffect.timestamp !== lastEffectTimestamp) {
@@ -343,7 +388,7 @@ export function ConstellationCanvas({
           const starAreaHeight = CANVAS_CONSTANTS.STAR_AREA_HEIGHT;
 
           // 星座ごとの領域を描画
-          for (let i = 0; i < constCount + 1; i++) { // +1 for unassigned
+          for (let i = 0; i < groupCount; i++) {
             const color = colors[i % colors.length];
             const x = i * constWidth;
 
@@ -464,7 +509,42 @@ export function ConstellationCanvas({
 
         // 星を描画
         for (const star of currentStars) {
-          drawStar(p, star.x, star.y, star.size, star.brightness, star.isNewest, star.isOldest, star.dateLabel);
+          drawStar(p, star.x, star.y, star.size, star.brightness, star.isNewest, star.isOldest, star.dateLabel, star.dimmed);
+        }
+
+        // ---- 全体表示: 各星座グループの上に名前を出す（縮小しても読める大きさで） ----
+        if (currentCamera.scale < CANVAS_CONSTANTS.OVERVIEW_SCALE) {
+          p.noStroke();
+          p.fill(230, 225, 255, 220);
+          p.textAlign(p.CENTER, p.BOTTOM);
+          p.textSize(GROUP_LABEL_SIZE / currentCamera.scale);
+          groupLabelsRef.current.forEach((label, i) => {
+            p.text(label, i * constWidth + constWidth / 2, CANVAS_CONSTANTS.PADDING_Y_TOP - 20);
+          });
+        }
+
+        // ---- 星のパルス（広がって消える輪を3重に描く） ----
+        if (currentPulse && currentPulse.timestamp !== lastPulseTimestamp) {
+          lastPulseTimestamp = currentPulse.timestamp;
+          pulseEntryId = currentPulse.entryId;
+          pulseStartedAt = p.millis();
+        }
+        if (pulseEntryId !== null) {
+          const elapsed = p.millis() - pulseStartedAt;
+          const pulseStar = currentStars.find((s) => s.entryId === pulseEntryId);
+          if (!pulseStar || elapsed > PULSE_DURATION) {
+            pulseEntryId = null;
+          } else {
+            // 終わりに向けて全体をフェードアウト
+            const fade = 1 - elapsed / PULSE_DURATION;
+            p.noFill();
+            p.strokeWeight(2);
+            for (let k = 0; k < 3; k++) {
+              const phase = (elapsed / 1000 + k / 3) % 1;
+              p.stroke(255, 240, 180, (1 - phase) * 220 * fade);
+              p.circle(pulseStar.x, pulseStar.y, 16 + phase * 60);
+            }
+          }
         }
 
         //エフェクトの続き
@@ -510,6 +590,7 @@ export function ConstellationCanvas({
         isNewest = false,
         isOldest = false,
         dateLabel?: string,
+        dimmed = false,
       ) {
         const clampedLength = p.constrain(textLength, 0, 100);
         const diameter = p.map(clampedLength, 0, 100, 10, 20); // 小さなメモでも見えるよう最小サイズを確保
@@ -517,6 +598,15 @@ export function ConstellationCanvas({
         const fillColor = p.color(starColor);
         fillColor.setAlpha(p.map(brightness, 0, 255, 120, 255));
 
+        // 絞り込みに一致しない星は輪郭や日付を出さず、かすかに表示する
+        if (dimmed) {
+          fillColor.setAlpha(35);
+          p.noStroke();
+          p.fill(fillColor);
+          p.circle(x, y, diameter * 0.7);
+          return;
+        }
+
         p.noStroke();
         p.fill(fillColor);
         p.circle(x, y, diameter);
@@ -554,7 +644,7 @@ export function ConstellationCanvas({
         const handleStarClick = latestOnStarClick.current;
         if (!handleStarClick) return;
 
-        const currentCameraOffset = cameraOffsetRef.current;
+        const currentCamera = cameraRef.current;
         const currentStars = starsRef.current;
 
         // クリック位置が canvas 内かチェック
@@ -562,14 +652,19 @@ export function ConstellationCanvas({
           return;
         }
 
-        // カメラオフセットを考慮したマウス位置
-        const worldX = p.mouseX - currentCameraOffset;
-        const worldY = p.mouseY;
+        // 全体表示中のタップは星座グループに寄る操作なので、星は選ばない
+        if (currentCamera.scale < CANVAS_CONSTANTS.OVERVIEW_SCALE) return;
+
+        // カメラを考慮したマウス位置（画面 → ワールド座標）
+        const worldX = (p.mouseX - currentCamera.x) / currentCamera.scale;
+        const worldY = (p.mouseY - currentCamera.y) / currentCamera.scale;
+        // 判定の半径は画面上の大きさでそろえる
+        const clickRadius = CLICK_RADIUS / currentCamera.scale;
 
         // クリックされた星を探す
         for (const star of currentStars) {
           const d = p.dist(worldX, worldY, star.x, star.y);
-          if (d < CLICK_RADIUS) {
+          if (d < clickRadius) {
             //変更を加えた４
             handleStarClick(star.entryId);
             console.log(`star ${star.entryId} 番目の星が選ばれました`);
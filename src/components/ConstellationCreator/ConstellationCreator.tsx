@@ -1,6 +1,12 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import type { ConstellationLine, DiaryEntry } from '../../types';
-import { findBestMatch, type MatchResult } from '../../lib/constellationMatcher';
+import { getOverlayTransformCss, type MatchResult } from '../../lib/constellationMatcher';
+import { getRarityRank } from '../../lib/matchCalibration';
+import { runConstellationMatch } from '../../lib/matchService';
+import { createMysteryArtwork } from '../../lib/mysteryArt';
+import { generateDateOrderLines } from '../../lib/constellationLines';
+import { MatchExplanation } from '../MatchExplanation/MatchExplanation';
+import { LineEditor } from '../LineEditor/LineEditor';
 import './ConstellationCreator.css';
 
 interface ConstellationCreatorProps {
@@ -11,19 +17,11 @@ interface ConstellationCreatorProps {
 
 // アニメーションフェーズの定義
 // reveal を廃止し、"この星座は…" の後に結果テキストと SVG を同時フェードインさせる
-type Phase = 'initial' | 'fadeout' | 'suspense' | 'svg-fadein' | 'naming';
-
-// 順番に星をつなぐシンプルな線生成
-function generateDateOrderLines(entries: DiaryEntry[]): ConstellationLine[] {
-  const lines: ConstellationLine[] = [];
-  for (let i = 0; i < entries.length - 1; i++) {
-    lines.push({
-      fromIndex: i,
-      toIndex: i + 1,
-    });
-  }
-  return lines;
-}
+// 最初に lines で星座線を編集してから演出を始める
+type Phase = 'lines' | 'initial' | 'fadeout' | 'suspense' | 'svg-fadein' | 'naming';
+
+// 説明画面で選び直せる候補の数
+const CANDIDATE_COUNT = 3;
 
 export function ConstellationCreator({
   entries,
@@ -31,45 +29,69 @@ export function ConstellationCreator({
   onCancel,
 }: ConstellationCreatorProps) {
   // アニメーションフェーズ管理
-  const [phase, setPhase] = useState<Phase>('initial');
+  const [phase, setPhase] = useState<Phase>('lines');
   const [matchResult, setMatchResult] = useState<MatchResult | null>(null);
+  const [candidates, setCandidates] = useState<MatchResult[]>([]);
+  const [showExplanation, setShowExplanation] = useState(false);
   const [constellationName, setConstellationName] = useState('');
 
-  const lines = generateDateOrderLines(entries);
-
-  // 星座判定を実行
-  const performMatch = useCallback(() => {
-    const userPoints = entries.map(e => e.starPosition);
-    const result = findBestMatch(userPoints, 0.1);
-    setMatchResult(result);
-    return result;
-  }, [entries]);
+  // 星座線（最初は日付順。lines フェーズで編集する）
+  const [lines, setLines] = useState<ConstellationLine[]>(() => generateDateOrderLines(entries.length));
+  const linesConfirmed = phase !== 'lines';
+  // どの星座にも似ていなかったときのイラスト
+  const mysteryArtwork = useMemo(
+    () => createMysteryArtwork(entries.map(e => e.starPosition), lines),
+    [entries, lines]
+  );
 
-  // ボタン押下時に即座にアニメーション開始
+  // 星座線を決めたらアニメーション開始
   useEffect(() => {
+    if (!linesConfirmed) return;
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const later = (callback: () => void, ms: number) => timers.push(setTimeout(callback, ms));
+
+    // 星座判定は Worker で演出と並行して進める（画面を離れたら中断）
+    // 正解星座ごとに較正した閾値を超えなければ「不思議な星座」になる
+    const controller = new AbortController();
+    const matching = runConstellationMatch(entries.map(e => e.starPosition), { lines }, controller.signal);
+    // 結果を待つ前に中断されても、未処理の reject にならないようにする
+    matching.catch(() => undefined);
+
     // 初期フェーズから自動的にフェードアウト開始
-    const timer = setTimeout(() => {
+    later(() => {
       setPhase('fadeout');
 
       // フェードアウト完了後 → suspense
-      setTimeout(() => {
+      later(() => {
         setPhase('suspense');
 
-        // 「この星座は……」表示後 → 判定実行 & テキスト+SVGを同時フェードイン
-        setTimeout(() => {
-          performMatch();
+        // 「この星座は……」表示後 → 判定結果を待って テキスト+SVGを同時フェードイン
+        later(async () => {
+          try {
+            const { match, candidates } = await matching;
+            setCandidates(candidates.slice(0, CANDIDATE_COUNT));
+            setMatchResult(match);
+          } catch (error) {
+            if (controller.signal.aborted) return;
+            // 判定できなくても星座は作れるよう、不思議な星座として進める
+            console.error('星座判定に失敗しました:', error);
+          }
           setPhase('svg-fadein');
 
           // SVGフェードイン後 → 名前入力（少し長めの余韻）
-          setTimeout(() => {
+          later(() => {
             setPhase('naming');
           }, 2400);
         }, 1500);
       }, 800);
     }, 100);
 
-    return () => clearTimeout(timer);
-  }, [performMatch]);
+    return () => {
+      controller.abort();
+      timers.forEach(clearTimeout);
+    };
+  }, [entries, lines, linesConfirmed]);
 
   // 完了ハンドラー
   const handleComplete = () => {
@@ -82,9 +104,10 @@ export function ConstellationCreator({
   };
 
   // フェーズに応じたUIをレンダリング（透明オーバーレイ）
-  // initialフェーズ以降は暗いオーバーレイを維持
+  // 線の編集中と、initialフェーズ以降は暗いオーバーレイを維持
   const showDarkOverlay = phase !== 'initial';
   const resultName = matchResult?.constellationName || '不思議な星座';
+  const rarityRank = matchResult?.rarity !== undefined ? getRarityRank(matchResult.rarity) : null;
   const showResult = phase === 'svg-fadein' || phase === 'naming';
 
   return (
@@ -94,6 +117,16 @@ export function ConstellationCreator({
         <div className="dark-overlay" />
       )}
 
+      {/* 星座線の編集 */}
+      {phase === 'lines' && (
+        <LineEditor
+          points={entries.map(e => e.starPosition)}
+          lines={lines}
+          onChange={setLines}
+          onConfirm={() => setPhase('initial')}
+        />
+      )}
+
       {/* 溜め演出：「この星座は……」 */}
       {phase === 'suspense' && (
         <div className="reveal-overlay">
@@ -108,16 +141,24 @@ export function ConstellationCreator({
             <p className="constellation-result">
               {resultName}！
             </p>
+            <p className="constellation-rarity">
+              {rarityRank
+                ? `${'★'.repeat(rarityRank.stars)} ${rarityRank.label}`
+                : 'どの星座にも似ていない、あなただけの形'}
+            </p>
           </div>
-          {matchResult && (
-            <div className={`svg-reveal-container ${phase === 'naming' ? 'visible' : ''}`}>
+          <div className={`svg-reveal-container ${phase === 'naming' ? 'visible' : ''}`}>
+            {matchResult ? (
               <img
                 src={matchResult.svgPath}
                 alt={matchResult.constellationName}
                 className="constellation-svg-reveal"
+                style={{ transform: getOverlayTransformCss(matchResult.overlayTransform) }}
               />
-            </div>
-          )}
+            ) : (
+              <img src={mysteryArtwork} alt="不思議な星座" className="constellation-svg-reveal" />
+            )}
+          </div>
         </>
       )}
 
@@ -143,13 +184,26 @@ export function ConstellationCreator({
               >
                 この名前で決定
               </button>
+              {candidates.length > 0 && (
+                <button className="btn btn-secondary" onClick={() => setShowExplanation(true)}>
+                  なぜこの形？
+                </button>
+              )}
             </div>
           </div>
+          {showExplanation && (
+            <MatchExplanation
+              candidates={candidates}
+              selected={matchResult}
+              onSelect={setMatchResult}
+              onClose={() => setShowExplanation(false)}
+            />
+          )}
         </>
       )}
 
-      {/* キャンセルボタン（常に左上に表示） */}
-      {phase === 'initial' && (
+      {/* キャンセルボタン（線の編集中は左上に表示） */}
+      {phase === 'lines' && (
         <button className="cancel-btn" onClick={onCancel}>
           ← 戻る
         </button>
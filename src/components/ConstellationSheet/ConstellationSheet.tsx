@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Constellation, StarPosition } from '../../types';
+import type { MatchResult } from '../../lib/constellationMatcher';
+import { getRarityRank } from '../../lib/matchCalibration';
+import { runConstellationMatch } from '../../lib/matchService';
+import { MatchExplanation } from '../MatchExplanation/MatchExplanation';
+import './ConstellationSheet.css';
+
+interface ConstellationSheetProps {
+  constellation: Constellation;
+  /** 星座の星の位置（entryIds の順） */
+  starPositions: StarPosition[];
+  /** いま重ねている星座の判定結果（不思議な星座なら null） */
+  matchResult: MatchResult | null;
+  canMoveLeft: boolean;
+  canMoveRight: boolean;
+  onRename: (name: string) => Promise<void>;
+  /** 判定結果を差し替えるとき（不思議な星座にするなら null） */
+  onMatchChange: (result: MatchResult | null) => Promise<void>;
+  onMove: (direction: -1 | 1) => Promise<void>;
+  onDissolve: () => Promise<void>;
+  onClose: () => void;
+}
+
+// 選び直せる候補の数（作成画面と同じ）
+const CANDIDATE_COUNT = 3;
+
+/**
+ * 完成した星座の管理シート
+ * 名前の変更・判定のやり直し・イラストの選び直し・並べ替え・解散を行う
+ */
+export function ConstellationSheet({
+  constellation,
+  starPositions,
+  matchResult,
+  canMoveLeft,
+  canMoveRight,
+  onRename,
+  onMatchChange,
+  onMove,
+  onDissolve,
+  onClose,
+}: ConstellationSheetProps) {
+  const [name, setName] = useState(constellation.name);
+  // 判定し直したときの候補（まだ判定していなければ null）
+  const [candidates, setCandidates] = useState<MatchResult[] | null>(null);
+  const [showExplanation, setShowExplanation] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // 判定中にシートを閉じたら中断する
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const rarityRank = matchResult?.rarity !== undefined ? getRarityRank(matchResult.rarity) : null;
+  const trimmedName = name.trim();
+
+  // 処理中の二重操作を防ぎ、失敗したらシートに表示する
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await task();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('星座の更新に失敗しました:', error);
+      setMessage(error instanceof Error ? error.message : '星座の更新に失敗しました');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // いまの正解星座（ユーザー作成・星座パックを含む）で判定し直す
+  const rematch = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const outcome = await runConstellationMatch(starPositions, { lines: constellation.lines }, controller.signal);
+    const top = outcome.candidates.slice(0, CANDIDATE_COUNT);
+    setCandidates(top);
+    return { match: outcome.match, candidates: top };
+  };
+
+  const handleRename = () => run(async () => {
+    await onRename(trimmedName);
+    setMessage('名前を変更しました');
+  });
+
+  const handleRematch = () => run(async () => {
+    const { match } = await rematch();
+    await onMatchChange(match);
+    setMessage(match ? `${match.constellationName}と判定しました` : 'どの星座にも似ていない形でした');
+  });
+
+  const handleOpenExplanation = () => run(async () => {
+    if (!candidates) await rematch();
+    setShowExplanation(true);
+  });
+
+  const handleSelect = (result: MatchResult | null) => run(async () => {
+    await onMatchChange(result);
+  });
+
+  const handleDissolve = () => {
+    if (!confirm(`「${constellation.name}」を解いて、星を未割り当てに戻します。よろしいですか？（ゴミ箱から元に戻せます）`)) return;
+    run(onDissolve);
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) onClose();
+  };
+
+  return (
+    <div className="constellation-sheet__backdrop" onClick={handleBackdropClick}>
+      <div className="constellation-sheet">
+        <div className="constellation-sheet__header">
+          <h2 className="constellation-sheet__title">星座の管理</h2>
+          <button className="constellation-sheet__close" onClick={onClose} aria-label="閉じる">✕</button>
+        </div>
+
+        <section className="constellation-sheet__section">
+          <h3 className="constellation-sheet__section-title">名前</h3>
+          <div className="constellation-sheet__row">
+            <input
+              type="text"
+              className="constellation-sheet__input"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={20}
+            />
+            <button
+              className="btn"
+              onClick={handleRename}
+              disabled={isBusy || !trimmedName || trimmedName === constellation.name}
+            >
+              変更
+            </button>
+          </div>
+        </section>
+
+        <section className="constellation-sheet__section">
+          <h3 className="constellation-sheet__section-title">重なっている星座</h3>
+          <p className="constellation-sheet__match">
+            {matchResult ? matchResult.constellationName : '不思議な星座'}
+            {rarityRank && <span className="constellation-sheet__rarity">{'★'.repeat(rarityRank.stars)}</span>}
+          </p>
+          <div className="constellation-sheet__row">
+            <button className="btn" onClick={handleRematch} disabled={isBusy}>
+              もう一度判定する
+            </button>
+            <button className="btn" onClick={handleOpenExplanation} disabled={isBusy}>
+              イラストを選び直す
+            </button>
+          </div>
+        </section>
+
+        <section className="constellation-sheet__section">
+          <h3 className="constellation-sheet__section-title">並び順</h3>
+          <div className="constellation-sheet__row">
+            <button className="btn" onClick={() => run(() => onMove(-1))} disabled={isBusy || !canMoveLeft}>
+              ← 左へ
+            </button>
+            <button className="btn" onClick={() => run(() => onMove(1))} disabled={isBusy || !canMoveRight}>
+              右へ →
+            </button>
+          </div>
+        </section>
+
+        <section className="constellation-sheet__section">
+          <button className="btn constellation-sheet__danger" onClick={handleDissolve} disabled={isBusy}>
+            星座を解く
+          </button>
+        </section>
+
+        {message && <p className="constellation-sheet__message">{message}</p>}
+      </div>
+
+      {showExplanation && candidates && (
+        <MatchExplanation
+          candidates={candidates}
+          selected={matchResult}
+          onSelect={handleSelect}
+          onClose={() => setShowExplanation(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default ConstellationSheet;
@@ -0,0 +1,271 @@
+import { useEffect, useMemo, useState, type ChangeEvent, type PointerEvent } from 'react';
+import type { CustomReferenceConstellation, StarPosition } from '../../types';
+import {
+  getCustomReferenceConstellations,
+  addCustomReferenceConstellation,
+  deleteCustomReferenceConstellation,
+} from '../../lib/db';
+import './CustomConstellationEditor.css';
+
+interface CustomConstellationEditorProps {
+  /** 正解星座を追加・削除したとき（判定用のレジストリを読み込み直す） */
+  onChanged: () => Promise<void> | void;
+  onClose: () => void;
+}
+
+/** イラストの枠（組み込みの星座 SVG と同じ 300x400） */
+const VIEW_WIDTH = 300;
+const VIEW_HEIGHT = 400;
+
+/** 1つの星座に置く星の数 */
+const REQUIRED_POINTS = 7;
+
+/** 置いた星をタップで消せる距離（px、枠の座標系） */
+const REMOVE_RADIUS = 14;
+
+type EditMode = 'points' | 'draw';
+
+/**
+ * 手描きの線を SVG 文字列にする
+ */
+function strokesToSvg(strokes: StarPosition[][]): string {
+  const paths = strokes
+    .filter((stroke) => stroke.length > 1)
+    .map((stroke) => {
+      const d = stroke.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' ');
+      return `<path d="${d}"/>`;
+    })
+    .join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}">`
+    + `<g fill="none" stroke="#fff" stroke-width="3" stroke-linecap="round" stroke-linejoin="round">${paths}</g>`
+    + '</svg>';
+}
+
+/**
+ * 保存済みの正解星座の1行（イラストは表示するときに URL にする）
+ */
+function CustomConstellationItem({ item, onDelete }: { item: CustomReferenceConstellation; onDelete: () => void }) {
+  const url = useMemo(() => URL.createObjectURL(item.svgBlob), [item.svgBlob]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  return (
+    <li className="custom-editor__item">
+      <img src={url} alt="" className="custom-editor__item-thumb" />
+      <span className="custom-editor__item-name">{item.name}</span>
+      <button className="btn" onClick={onDelete}>削除</button>
+    </li>
+  );
+}
+
+/**
+ * 正解星座の作成画面
+ * 枠の中に星を置き、イラストを手描きするか SVG を読み込んで、判定に使う形として保存する
+ */
+export function CustomConstellationEditor({ onChanged, onClose }: CustomConstellationEditorProps) {
+  const [items, setItems] = useState<CustomReferenceConstellation[] | null>(null);
+  const [name, setName] = useState('');
+  const [mode, setMode] = useState<EditMode>('points');
+  // 星とイラストの座標はどちらも枠（300x400）の座標系
+  const [points, setPoints] = useState<StarPosition[]>([]);
+  const [strokes, setStrokes] = useState<StarPosition[][]>([]);
+  const [uploadedSvg, setUploadedSvg] = useState<Blob | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const uploadedUrl = useMemo(() => (uploadedSvg ? URL.createObjectURL(uploadedSvg) : null), [uploadedSvg]);
+  useEffect(() => () => {
+    if (uploadedUrl) URL.revokeObjectURL(uploadedUrl);
+  }, [uploadedUrl]);
+
+  useEffect(() => {
+    getCustomReferenceConstellations()
+      .then(setItems)
+      .catch((error) => console.error('正解星座の読み込みに失敗しました:', error));
+  }, []);
+
+  const reload = async () => {
+    setItems(await getCustomReferenceConstellations());
+    await onChanged();
+  };
+
+  // ----- 枠の操作 -----
+  const toViewPoint = (e: PointerEvent<SVGSVGElement>): StarPosition => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * VIEW_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * VIEW_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    const p = toViewPoint(e);
+    if (mode === 'points') {
+      // 近くに星があれば消し、なければ置く
+      const nearIndex = points.findIndex((q) => Math.hypot(q.x - p.x, q.y - p.y) < REMOVE_RADIUS);
+      if (nearIndex >= 0) {
+        setPoints(points.filter((_, i) => i !== nearIndex));
+      } else if (points.length < REQUIRED_POINTS) {
+        setPoints([...points, p]);
+      }
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsDrawing(true);
+    setStrokes([...strokes, [p]]);
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (mode !== 'draw' || !isDrawing) return;
+    const p = toViewPoint(e);
+    setStrokes((prev) => [...prev.slice(0, -1), [...prev[prev.length - 1], p]]);
+  };
+
+  const handlePointerUp = () => setIsDrawing(false);
+
+  // ----- イラストの読み込み -----
+  const handleUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.type !== 'image/svg+xml' && !file.name.toLowerCase().endsWith('.svg')) {
+      setMessage('SVG ファイルを選んでください');
+      return;
+    }
+    setUploadedSvg(new Blob([file], { type: 'image/svg+xml' }));
+    setStrokes([]);
+    setMessage(null);
+  };
+
+  // ----- 保存・削除 -----
+  const hasIllustration = uploadedSvg !== null || strokes.some((stroke) => stroke.length > 1);
+  const canSave = name.trim().length > 0 && points.length === REQUIRED_POINTS && hasIllustration && !isBusy;
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const svgBlob = uploadedSvg ?? new Blob([strokesToSvg(strokes)], { type: 'image/svg+xml' });
+      const normalized = points.map((p) => ({ x: p.x / VIEW_WIDTH, y: p.y / VIEW_HEIGHT }));
+      await addCustomReferenceConstellation(name, normalized, svgBlob);
+      await reload();
+      setName('');
+      setPoints([]);
+      setStrokes([]);
+      setUploadedSvg(null);
+      setMode('points');
+      setMessage('星座の形を保存しました');
+    } catch (error) {
+      console.error('正解星座の保存に失敗しました:', error);
+      setMessage(error instanceof Error ? error.message : '正解星座の保存に失敗しました');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async (item: CustomReferenceConstellation) => {
+    if (!confirm(`「${item.name}」を削除しますか？\nこの形で判定された星座は「不思議な星座」になります。`)) return;
+    try {
+      await deleteCustomReferenceConstellation(item.id!);
+      await reload();
+    } catch (error) {
+      console.error('正解星座の削除に失敗しました:', error);
+    }
+  };
+
+  return (
+    <div className="custom-editor__backdrop">
+      <div className="custom-editor">
+        <div className="custom-editor__header">
+          <h2 className="custom-editor__title">星座の形をつくる</h2>
+          <button className="custom-editor__close" onClick={onClose} aria-label="閉じる">
+            ✕
+          </button>
+        </div>
+
+        <input
+          type="text"
+          className="custom-editor__name"
+          placeholder="星座の名前（例: ねこ座）"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={20}
+        />
+
+        <div className="custom-editor__modes">
+          <button
+            className={`custom-editor__mode ${mode === 'points' ? 'is-active' : ''}`}
+            onClick={() => setMode('points')}
+          >
+            ★ 星を置く ({points.length}/{REQUIRED_POINTS})
+          </button>
+          <button
+            className={`custom-editor__mode ${mode === 'draw' ? 'is-active' : ''}`}
+            onClick={() => setMode('draw')}
+            disabled={uploadedSvg !== null}
+          >
+            ✎ 絵を描く
+          </button>
+        </div>
+
+        <svg
+          className="custom-editor__canvas"
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {uploadedUrl && <image href={uploadedUrl} width={VIEW_WIDTH} height={VIEW_HEIGHT} />}
+          {strokes.map((stroke, i) => (
+            <polyline key={`stroke-${i}`} className="custom-editor__stroke" points={stroke.map((p) => `${p.x},${p.y}`).join(' ')} />
+          ))}
+          {points.length > 1 && (
+            <polyline className="custom-editor__line" points={points.map((p) => `${p.x},${p.y}`).join(' ')} />
+          )}
+          {points.map((p, i) => (
+            <circle key={`point-${i}`} className="custom-editor__point" cx={p.x} cy={p.y} r={6} />
+          ))}
+        </svg>
+        <p className="custom-editor__hint">
+          {mode === 'points'
+            ? '枠をタップして星を置きます（置いた星をタップすると消えます）'
+            : '枠の中をなぞってイラストを描きます'}
+        </p>
+
+        <div className="custom-editor__actions">
+          <button className="btn" onClick={() => setStrokes(strokes.slice(0, -1))} disabled={strokes.length === 0}>
+            線を1本戻す
+          </button>
+          {uploadedSvg ? (
+            <button className="btn" onClick={() => setUploadedSvg(null)}>
+              読み込んだ絵を外す
+            </button>
+          ) : (
+            <label className="btn custom-editor__file-button">
+              SVG を読み込む
+              <input type="file" accept="image/svg+xml,.svg" onChange={handleUpload} hidden />
+            </label>
+          )}
+        </div>
+
+        <button className="btn btn-primary" onClick={handleSave} disabled={!canSave}>
+          この形を保存
+        </button>
+        {message && <p className="custom-editor__message">{message}</p>}
+
+        <h3 className="custom-editor__section-title">つくった星座</h3>
+        {items && items.length === 0 && <p className="custom-editor__hint">まだありません</p>}
+        {items && items.length > 0 && (
+          <ul className="custom-editor__list">
+            {items.map((item) => (
+              <CustomConstellationItem key={item.id} item={item} onDelete={() => handleDelete(item)} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CustomConstellationEditor;
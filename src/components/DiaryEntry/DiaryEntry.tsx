@@ -1,58 +1,10 @@
 'use client';
 
-import { useState, useCallback, useEffect, useRef, type ChangeEvent } from 'react';
+import { useState, useEffect, useRef, type ChangeEvent } from 'react';
 import StarPlacer from '../StarPlacer/StarPlacer';
-import Cropper, { type Area } from 'react-easy-crop';
-import { CANVAS_CONSTANTS } from '../../types';
-
-
-// TypeScriptに「これはReactコンポーネントとして扱ってOK」と明示的に伝えます。
-const EasyCropper = Cropper as unknown as React.ComponentType<any>;
-
-// =================================================================
-// ユーティリティ関数
-// =================================================================
-
-const createImage = (url: string): Promise<HTMLImageElement> =>
-  new Promise((resolve, reject) => {
-    const image = new Image();
-    image.addEventListener('load', () => resolve(image));
-    image.addEventListener('error', (error) => reject(error));
-    image.setAttribute('crossOrigin', 'anonymous');
-    image.src = url;
-  });
-
-async function getCroppedImg(
-  imageSrc: string,
-  pixelCrop: Area
-): Promise<string> {
-  const image = await createImage(imageSrc);
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) return '';
-
-  canvas.width = pixelCrop.width;
-  canvas.height = pixelCrop.height;
-
-  ctx.drawImage(
-    image,
-    pixelCrop.x,
-    pixelCrop.y,
-    pixelCrop.width,
-    pixelCrop.height,
-    0,
-    0,
-    pixelCrop.width,
-    pixelCrop.height
-  );
-
-  return new Promise((resolve) => {
-    canvas.toBlob((blob) => {
-      if (blob) resolve(URL.createObjectURL(blob));
-    }, 'image/jpeg');
-  });
-}
+import PhotoCropper from '../PhotoCropper/PhotoCropper';
+import TagMoodPicker from '../TagMoodPicker/TagMoodPicker';
+import { CANVAS_CONSTANTS, type Mood } from '../../types';
 
 // =================================================================
 // メインコンポーネント
@@ -60,21 +12,21 @@ async function getCroppedImg(
 
 //onCompleteとonCancelの引数を定義
 type Props = {
-  onComplete: (data: { photoUrl: string; memo: string; starPosition: { x: number; y: number } }) => void;
+  onComplete: (data: { photoUrl: string; memo: string; starPosition: { x: number; y: number }; tags: string[]; mood?: Mood }) => void;
   onCancel: () => void;
 };
 
 export default function DiaryEntry({ onComplete, onCancel }: Props) {
   // noteをSetnoteで管理
   const [note, setNote] = useState("");
+  // 気分とタグ（どちらも任意）
+  const [tags, setTags] = useState<string[]>([]);
+  const [mood, setMood] = useState<Mood | undefined>(undefined);
   // 画像のプレビューurl
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
 
   const [step, setStep] = useState<'input' | 'cropping' | 'star'>('input');
   const [imageSrc, setImageSrc] = useState<string | null>(null);
-  const [crop, setCrop] = useState({ x: 0, y: 0 });
-  const [zoom, setZoom] = useState(1);
-  const [croppedAreaPixels, setCroppedAreaPixels] = useState<Area | null>(null);
 
   // Object URLを追跡してクリーンアップ
   const objectUrlsRef = useRef<string[]>([]);
@@ -103,25 +55,14 @@ export default function DiaryEntry({ onComplete, onCancel }: Props) {
     }
   };
 
-  const onCropComplete = useCallback((_croppedArea: Area, croppedAreaPixels: Area) => {
-    setCroppedAreaPixels(croppedAreaPixels);
-  }, []);
-
-  const handleCropConfirm = async () => {
-    if (imageSrc && croppedAreaPixels) {
-      try {
-        // 古いpreviewUrlがあれば解放
-        if (previewUrl) {
-          URL.revokeObjectURL(previewUrl);
-        }
-        const croppedImage = await getCroppedImg(imageSrc, croppedAreaPixels);
-        objectUrlsRef.current.push(croppedImage);
-        setPreviewUrl(croppedImage);
-        setStep('input');
-      } catch (e) {
-        console.error(e);
-      }
+  const handleCropComplete = (croppedImage: string) => {
+    // 古いpreviewUrlがあれば解放
+    if (previewUrl) {
+      URL.revokeObjectURL(previewUrl);
     }
+    objectUrlsRef.current.push(croppedImage);
+    setPreviewUrl(croppedImage);
+    setStep('input');
   };
 
   // 星の位置が決まったらデータを親に返す
@@ -130,7 +71,9 @@ export default function DiaryEntry({ onComplete, onCancel }: Props) {
       onComplete({
         photoUrl: previewUrl,
         memo: note,
-        starPosition: { x, y }
+        starPosition: { x, y },
+        tags,
+        mood
       });
     }
   };
@@ -147,55 +90,11 @@ export default function DiaryEntry({ onComplete, onCancel }: Props) {
 
   if (step === 'cropping' && imageSrc) {
     return (
-      <div style={{
-        position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
-        background: '#0a0f1c', zIndex: 1000, display: 'flex', flexDirection: 'column'
-      }}>
-        <div style={{ position: 'relative', flex: 1, width: '100%' }}>
-          {/* ここで再定義した EasyCropper を使います */}
-          <EasyCropper
-            image={imageSrc}
-            crop={crop}
-            zoom={zoom}
-            aspect={CANVAS_CONSTANTS.CROP_ASPECT}
-            onCropChange={setCrop}
-            onCropComplete={onCropComplete}
-            onZoomChange={setZoom}
-          />
-        </div>
-
-        <div style={{
-          height: '100px', background: 'rgba(8, 11, 24, 0.95)', display: 'flex',
-          alignItems: 'center', justifyContent: 'center', gap: '20px', padding: '0 20px'
-        }}>
-          <div style={{ position: 'absolute', bottom: '110px', width: '80%', display: 'flex', justifyContent: 'center' }}>
-            <input
-              type="range"
-              value={zoom}
-              min={1}
-              max={3}
-              step={0.1}
-              onChange={(e) => setZoom(Number(e.target.value))}
-              style={{ width: '100%', maxWidth: '300px' }}
-            />
-          </div>
-
-          <button
-            onClick={() => { setStep('input'); setImageSrc(null); }}
-            className="btn"
-            style={{ padding: '10px 20px', background: 'rgba(60, 70, 100, 0.7)', borderRadius: '4px', border: 'none', color: 'rgba(210, 218, 240, 0.9)' }}
-          >
-            キャンセル
-          </button>
-          <button
-            onClick={handleCropConfirm}
-            className="btn btn-primary"
-            style={{ padding: '10px 20px', background: 'rgba(70, 130, 230, 0.85)', color: 'rgba(230, 235, 250, 0.95)', borderRadius: '4px', border: 'none' }}
-          >
-            決定する
-          </button>
-        </div>
-      </div>
+      <PhotoCropper
+        imageSrc={imageSrc}
+        onComplete={handleCropComplete}
+        onCancel={() => { setStep('input'); setImageSrc(null); }}
+      />
     );
   }
 
@@ -260,6 +159,8 @@ export default function DiaryEntry({ onComplete, onCancel }: Props) {
             onChange={(e) => setNote(e.target.value)}
           />
 
+          <TagMoodPicker tags={tags} mood={mood} onTagsChange={setTags} onMoodChange={setMood} />
+
           <button
             className="btn btn-primary"
             disabled={!previewUrl}
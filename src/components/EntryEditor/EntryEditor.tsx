@@ -0,0 +1,190 @@
+import { useState, useEffect, useRef, type ChangeEvent } from 'react';
+import type { DiaryEntry, Mood, StarPosition } from '../../types';
+import { CANVAS_CONSTANTS } from '../../types';
+import { useDiaryPhoto } from '../../hooks/useDiaryPhoto';
+import { formatDiaryDate } from '../../lib/date';
+import StarPlacer from '../StarPlacer/StarPlacer';
+import PhotoCropper from '../PhotoCropper/PhotoCropper';
+import TagMoodPicker from '../TagMoodPicker/TagMoodPicker';
+
+type Props = {
+  /** 編集する日記エントリ */
+  entry: DiaryEntry;
+  /** 保存ボタン（写真を差し替えた場合のみ photoBlob が入る） */
+  onSave: (edits: { memo: string; starPosition: StarPosition; tags: string[]; mood?: Mood; photoBlob?: Blob }) => void;
+  onCancel: () => void;
+};
+
+/**
+ * 日記エントリの編集画面
+ * メモの変更・写真の切り抜き直し（差し替え）・星の移動ができる
+ */
+export default function EntryEditor({ entry, onSave, onCancel }: Props) {
+  const [memo, setMemo] = useState(entry.memo);
+  const [starPosition, setStarPosition] = useState<StarPosition>(entry.starPosition);
+  const [tags, setTags] = useState<string[]>(entry.tags ?? []);
+  const [mood, setMood] = useState<Mood | undefined>(entry.mood);
+  const [step, setStep] = useState<'form' | 'cropping' | 'star'>('form');
+
+  // 切り抜き元の画像（新しく選んだ写真 or 保存済みの写真）
+  const [cropSource, setCropSource] = useState<string | null>(null);
+  // 切り抜き後の新しい写真（未変更なら null）
+  const [newPhotoUrl, setNewPhotoUrl] = useState<string | null>(null);
+
+  const savedPhotoUrl = useDiaryPhoto(entry.id);
+  const photoUrl = newPhotoUrl ?? savedPhotoUrl;
+
+  // Object URLを追跡してクリーンアップ
+  const objectUrlsRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    return () => {
+      objectUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+      objectUrlsRef.current = [];
+    };
+  }, []);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    objectUrlsRef.current.push(url);
+    setCropSource(url);
+    setStep('cropping');
+  };
+
+  const handleRecrop = () => {
+    if (!photoUrl) return;
+    setCropSource(photoUrl);
+    setStep('cropping');
+  };
+
+  const handleCropComplete = (croppedUrl: string) => {
+    objectUrlsRef.current.push(croppedUrl);
+    setNewPhotoUrl(croppedUrl);
+    setStep('form');
+  };
+
+  const handleSave = async () => {
+    let photoBlob: Blob | undefined;
+    if (newPhotoUrl) {
+      const response = await fetch(newPhotoUrl);
+      photoBlob = await response.blob();
+    }
+    onSave({ memo, starPosition, tags, mood, photoBlob });
+  };
+
+  if (step === 'cropping' && cropSource) {
+    return (
+      <PhotoCropper
+        imageSrc={cropSource}
+        onComplete={handleCropComplete}
+        onCancel={() => setStep('form')}
+      />
+    );
+  }
+
+  if (step === 'star' && photoUrl) {
+    return (
+      <StarPlacer
+        photoUrl={photoUrl}
+        initialPosition={starPosition}
+        onComplete={(x, y) => {
+          setStarPosition({ x, y });
+          setStep('form');
+        }}
+        onBack={() => setStep('form')}
+      />
+    );
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      background: 'rgba(8, 11, 24, 0.92)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'flex-start',
+      overflowY: 'auto',
+      paddingBottom: '40px',
+      zIndex: 2100
+    }}>
+      <div style={{ width: '100%', maxWidth: '500px', padding: '0 20px', position: 'relative' }}>
+        <button
+          onClick={onCancel}
+          style={{
+            position: 'absolute', top: '20px', left: '20px',
+            background: 'none', border: 'none', fontSize: '1rem',
+            cursor: 'pointer', color: 'rgba(160, 170, 200, 0.8)'
+          }}
+        >
+          ← もどる
+        </button>
+
+        <h2 style={{ textAlign: 'center', fontSize: '1.2rem', margin: '70px 0 20px' }}>
+          {formatDiaryDate(entry.date)} の記録を編集
+        </h2>
+
+        {/* 写真（星の位置つき） */}
+        <div style={{
+          position: 'relative',
+          width: `${CANVAS_CONSTANTS.STAR_AREA_WIDTH}px`,
+          height: `${CANVAS_CONSTANTS.STAR_AREA_HEIGHT}px`,
+          margin: '0 auto 12px auto',
+          borderRadius: '8px',
+          overflow: 'hidden',
+          background: 'rgba(15, 20, 35, 0.6)'
+        }}>
+          {photoUrl && (
+            <img src={photoUrl} alt="記録" style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }} />
+          )}
+          <img
+            src="/star.svg"
+            alt="star"
+            style={{
+              position: 'absolute',
+              left: `${starPosition.x * 100}%`,
+              top: `${starPosition.y * 100}%`,
+              transform: 'translate(-50%, -50%)',
+              width: '32px',
+              height: '32px',
+              pointerEvents: 'none',
+              filter: 'drop-shadow(0 0 8px rgba(255, 255, 100, 0.8))'
+            }}
+          />
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '20px', flexWrap: 'wrap', justifyContent: 'center' }}>
+          <label className="btn" style={{ borderRadius: '4px', fontSize: '0.85rem' }}>
+            写真を選び直す
+            <input type="file" accept="image/*" onChange={handleFileChange} style={{ display: 'none' }} />
+          </label>
+          <button className="btn" style={{ borderRadius: '4px', fontSize: '0.85rem' }} onClick={handleRecrop} disabled={!photoUrl}>
+            切り抜き直す
+          </button>
+          <button className="btn" style={{ borderRadius: '4px', fontSize: '0.85rem' }} onClick={() => setStep('star')} disabled={!photoUrl}>
+            星を動かす
+          </button>
+        </div>
+
+        <textarea
+          style={{ width: '100%', height: '100px', padding: '10px', marginBottom: '20px', borderRadius: '4px', border: '1px solid rgba(100, 115, 160, 0.3)', background: 'rgba(18, 22, 38, 0.9)', color: 'rgba(210, 218, 240, 0.9)' }}
+          placeholder="ひとことメモ..."
+          value={memo}
+          onChange={(e) => setMemo(e.target.value)}
+        />
+
+        <TagMoodPicker tags={tags} mood={mood} onTagsChange={setTags} onMoodChange={setMood} />
+
+        <button
+          className="btn btn-primary"
+          onClick={handleSave}
+          style={{ width: '100%', padding: '12px', borderRadius: '4px', border: 'none' }}
+        >
+          保存する
+        </button>
+      </div>
+    </div>
+  );
+}
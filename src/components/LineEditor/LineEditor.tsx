@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import type { ConstellationLine, StarPosition } from '../../types';
+import { CANVAS_CONSTANTS } from '../../types';
+import {
+  generateDateOrderLines,
+  generateMinimumSpanningTree,
+  toggleLine,
+  isConnected,
+} from '../../lib/constellationLines';
+import './LineEditor.css';
+
+interface LineEditorProps {
+  /** 星の位置（日付順） */
+  points: StarPosition[];
+  lines: ConstellationLine[];
+  onChange: (lines: ConstellationLine[]) => void;
+  /** この線で決めたとき（ひとつながりのときだけ押せる） */
+  onConfirm: () => void;
+}
+
+/** 星をタップしやすいよう、見た目より大きくとる当たり判定の半径（px） */
+const HIT_RADIUS = 18;
+
+/**
+ * 星座線の編集
+ * 2つの星を続けてタップすると、その間の線を引く・消す
+ * 星の上にぴったり重なるよう、星描画領域と同じ位置・大きさで表示する
+ */
+export function LineEditor({ points, lines, onChange, onConfirm }: LineEditorProps) {
+  // 1つ目にタップした星
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const width = CANVAS_CONSTANTS.STAR_AREA_WIDTH;
+  const height = CANVAS_CONSTANTS.STAR_AREA_HEIGHT;
+  const px = points.map((p) => ({ x: p.x * width, y: p.y * height }));
+  const connected = isConnected(points.length, lines);
+
+  const handleStarTap = (index: number) => {
+    if (selected === null) {
+      setSelected(index);
+      return;
+    }
+    if (selected !== index) {
+      onChange(toggleLine(lines, selected, index));
+    }
+    setSelected(null);
+  };
+
+  const applySuggestion = (suggested: ConstellationLine[]) => {
+    setSelected(null);
+    onChange(suggested);
+  };
+
+  return (
+    <>
+      <svg className="line-editor__canvas" viewBox={`0 0 ${width} ${height}`}>
+        {lines.map((line, i) => {
+          const a = px[line.fromIndex];
+          const b = px[line.toIndex];
+          if (!a || !b) return null;
+          return <line key={`line-${i}`} className="line-editor__line" x1={a.x} y1={a.y} x2={b.x} y2={b.y} />;
+        })}
+        {px.map((p, i) => (
+          <g key={`star-${i}`} className="line-editor__star" onClick={() => handleStarTap(i)}>
+            <circle className="line-editor__hit" cx={p.x} cy={p.y} r={HIT_RADIUS} />
+            <circle className={`line-editor__dot ${selected === i ? 'is-selected' : ''}`} cx={p.x} cy={p.y} r={6} />
+            <text className="line-editor__label" x={p.x + 9} y={p.y - 9}>{i + 1}</text>
+          </g>
+        ))}
+      </svg>
+
+      <div className="line-editor__panel">
+        <div className="line-editor__card">
+          <p className="line-editor__hint">
+            {selected === null
+              ? '星を2つ続けてタップすると、線を引いたり消したりできます'
+              : `${selected + 1}番の星とつなぐ星をタップしてください`}
+          </p>
+          <div className="line-editor__suggestions">
+            <button className="btn btn-secondary" onClick={() => applySuggestion(generateDateOrderLines(points.length))}>
+              日付順につなぐ
+            </button>
+            <button className="btn btn-secondary" onClick={() => applySuggestion(generateMinimumSpanningTree(points))}>
+              近い星どうしでつなぐ
+            </button>
+          </div>
+          {!connected && (
+            <p className="line-editor__warning">すべての星が線でつながるようにしてください</p>
+          )}
+          <button className="btn btn-primary" onClick={onConfirm} disabled={!connected}>
+            この線で星座にする
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default LineEditor;
@@ -0,0 +1,166 @@
+import type { MatchResult, Point2D } from '../../lib/constellationMatcher';
+import { getRarityRank } from '../../lib/matchCalibration';
+import './MatchExplanation.css';
+
+interface MatchExplanationProps {
+  /** 類似度の高い順に並んだ候補 */
+  candidates: MatchResult[];
+  /**
+   * いま選ばれている判定結果（不思議な星座なら null）
+   * 候補に入っていない（判定し直して順位が下がった・形が変わった）ときは「現在」として別に表示する
+   */
+  selected: MatchResult | null;
+  /** 候補が選ばれたとき（不思議な星座を選んだら null） */
+  onSelect: (result: MatchResult | null) => void;
+  onClose: () => void;
+}
+
+/** 図の余白（正規化後の座標系） */
+const VIEW_PADDING = 0.4;
+
+/**
+ * 点群全体が収まる viewBox を求める
+ */
+function getViewBox(points: Point2D[]): string {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs) - VIEW_PADDING;
+  const minY = Math.min(...ys) - VIEW_PADDING;
+  const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) + VIEW_PADDING;
+  return `${minX} ${minY} ${size} ${size}`;
+}
+
+/**
+ * 重ね合わせの図（ユーザーの星と参照点、その対応とずれ）
+ */
+function AlignmentDiagram({ result }: { result: MatchResult }) {
+  const { alignment, correspondence, pointErrors } = result;
+  if (!alignment || !correspondence) {
+    return <p className="match-explanation__empty">この候補は重ね合わせを表示できません</p>;
+  }
+
+  const { userPoints, referencePoints } = alignment;
+
+  return (
+    <svg className="match-explanation__diagram" viewBox={getViewBox([...userPoints, ...referencePoints])}>
+      {/* 対応線 */}
+      {userPoints.map((p, i) => {
+        const refIdx = correspondence[i];
+        if (refIdx < 0) return null;
+        const r = referencePoints[refIdx];
+        return <line key={`link-${i}`} className="match-explanation__link" x1={p.x} y1={p.y} x2={r.x} y2={r.y} />;
+      })}
+
+      {/* 参照点（対応しなかった点は薄く） */}
+      {referencePoints.map((r, i) => (
+        <circle
+          key={`ref-${i}`}
+          className={`match-explanation__ref ${correspondence.includes(i) ? '' : 'is-missing'}`}
+          cx={r.x}
+          cy={r.y}
+          r={0.07}
+        />
+      ))}
+
+      {/* ユーザーの星とずれ */}
+      {userPoints.map((p, i) => (
+        <g key={`user-${i}`}>
+          <circle className="match-explanation__star" cx={p.x} cy={p.y} r={0.05} />
+          {pointErrors?.[i] != null && (
+            <text className="match-explanation__distance" x={p.x + 0.08} y={p.y - 0.08}>
+              {pointErrors[i]!.toFixed(2)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * 候補の1行
+ */
+function CandidateButton({ candidate, isSelected, label, onSelect }: {
+  candidate: MatchResult;
+  isSelected: boolean;
+  /** 名前の後ろに添える印（「現在」など） */
+  label?: string;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      className={`match-explanation__candidate ${isSelected ? 'is-selected' : ''}`}
+      onClick={onSelect}
+    >
+      <img src={candidate.svgPath} alt="" className="match-explanation__candidate-thumb" />
+      <span className="match-explanation__candidate-name">
+        {candidate.constellationName}
+        {label && <span className="match-explanation__candidate-label">{label}</span>}
+      </span>
+      <span className="match-explanation__candidate-score">
+        {candidate.rarity !== undefined && `${'★'.repeat(getRarityRank(candidate.rarity).stars)} `}
+        {Math.round(candidate.similarity * 100)}%
+      </span>
+    </button>
+  );
+}
+
+/**
+ * 星座判定の説明（なぜこの形になったか）と候補の選び直し
+ */
+export function MatchExplanation({ candidates, selected, onSelect, onClose }: MatchExplanationProps) {
+  const selectedCandidate = candidates.find((c) => c.constellationId === selected?.constellationId) ?? null;
+  // 候補の外にある現在の判定結果
+  const current = selected && !selectedCandidate ? selected : null;
+  // 不思議な星座を選んでいるときは、いちばん近かった形との重ね合わせを見せる
+  const shown = selectedCandidate ?? current ?? candidates[0];
+
+  return (
+    <div className="match-explanation__backdrop">
+      <div className="match-explanation">
+        <div className="match-explanation__header">
+          <h2 className="match-explanation__title">判定のしくみ</h2>
+          <button className="match-explanation__close" onClick={onClose} aria-label="閉じる">
+            ✕
+          </button>
+        </div>
+
+        {shown && <AlignmentDiagram result={shown} />}
+        <p className="match-explanation__legend">
+          <span className="match-explanation__legend-star">●</span> あなたの星
+          <span className="match-explanation__legend-ref">○</span> {shown?.constellationName}の点
+          （数字は対応する点とのずれ）
+        </p>
+
+        <ul className="match-explanation__candidates">
+          {current && (
+            <li key={`current-${current.constellationId}`}>
+              <CandidateButton candidate={current} isSelected label="現在" onSelect={() => onSelect(current)} />
+            </li>
+          )}
+          {candidates.map((candidate) => (
+            <li key={candidate.constellationId}>
+              <CandidateButton
+                candidate={candidate}
+                isSelected={candidate === selectedCandidate}
+                onSelect={() => onSelect(candidate)}
+              />
+            </li>
+          ))}
+          <li>
+            <button
+              className={`match-explanation__candidate ${selected === null ? 'is-selected' : ''}`}
+              onClick={() => onSelect(null)}
+            >
+              <span className="match-explanation__candidate-thumb match-explanation__candidate-thumb--mystery">✧</span>
+              <span className="match-explanation__candidate-name">不思議な星座</span>
+            </button>
+          </li>
+        </ul>
+        <p className="match-explanation__hint">別の形を選ぶと、その星座として保存されます</p>
+      </div>
+    </div>
+  );
+}
+
+export default MatchExplanation;
@@ -0,0 +1,86 @@
+import type { DiaryEntry } from '../../types';
+import { useDiaryPhoto } from '../../hooks/useDiaryPhoto';
+import { formatDiaryDate } from '../../lib/date';
+import { toggleMemberSelection } from '../../lib/grouping';
+import './MemberPicker.css';
+
+interface MemberPickerProps {
+  /** 星座に使える（未割り当ての）エントリ（日付順） */
+  entries: DiaryEntry[];
+  /** 選んでいるエントリの ID */
+  selectedIds: number[];
+  /** 星座に入れる星の数の範囲 */
+  minCount: number;
+  maxCount: number;
+  onChange: (selectedIds: number[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * 選択肢の1枚（写真は表示するときに読み込む）
+ */
+function MemberItem({ entry, selected, onToggle }: { entry: DiaryEntry; selected: boolean; onToggle: () => void }) {
+  const photoUrl = useDiaryPhoto(entry.id);
+
+  return (
+    <li>
+      <button
+        className={`member-picker__item ${selected ? 'is-selected' : ''}`}
+        onClick={onToggle}
+        aria-pressed={selected}
+      >
+        <span className="member-picker__thumb">
+          {photoUrl ? <img src={photoUrl} alt="" /> : <span className="member-picker__no-photo">★</span>}
+        </span>
+        <span className="member-picker__date">{formatDiaryDate(entry.date)}</span>
+        <span className="member-picker__memo">{entry.isLost ? '（失われた星）' : entry.memo}</span>
+      </button>
+    </li>
+  );
+}
+
+/**
+ * 星座にする星の選択
+ * 未割り当ての星から、星座に入れるものを選ぶ（選んだ星は星空の上でも強調される）
+ */
+export function MemberPicker({ entries, selectedIds, minCount, maxCount, onChange, onConfirm, onCancel }: MemberPickerProps) {
+  const handleToggle = (id: number) => {
+    onChange(toggleMemberSelection(selectedIds, id, maxCount));
+  };
+
+  return (
+    <>
+      <button className="member-picker__cancel" onClick={onCancel}>
+        ← 戻る
+      </button>
+
+      <div className="member-picker">
+        <div className="member-picker__card">
+          <p className="member-picker__hint">
+            星座にする星を選んでください（{selectedIds.length}/{maxCount}）
+          </p>
+          <ul className="member-picker__list">
+            {entries.map((entry) => (
+              <MemberItem
+                key={entry.id}
+                entry={entry}
+                selected={selectedIds.includes(entry.id!)}
+                onToggle={() => handleToggle(entry.id!)}
+              />
+            ))}
+          </ul>
+          <button
+            className="btn btn-primary"
+            onClick={onConfirm}
+            disabled={selectedIds.length < minCount || selectedIds.length > maxCount}
+          >
+            この星で星座を作る
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default MemberPicker;
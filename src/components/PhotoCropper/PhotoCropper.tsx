@@ -0,0 +1,140 @@
+import { useState, useCallback } from 'react';
+import Cropper, { type Area } from 'react-easy-crop';
+import { CANVAS_CONSTANTS } from '../../types';
+
+
+// TypeScriptに「これはReactコンポーネントとして扱ってOK」と明示的に伝えます。
+const EasyCropper = Cropper as unknown as React.ComponentType<any>;
+
+// =================================================================
+// ユーティリティ関数
+// =================================================================
+
+const createImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.addEventListener('load', () => resolve(image));
+    image.addEventListener('error', (error) => reject(error));
+    image.setAttribute('crossOrigin', 'anonymous');
+    image.src = url;
+  });
+
+async function getCroppedImg(
+  imageSrc: string,
+  pixelCrop: Area
+): Promise<string> {
+  const image = await createImage(imageSrc);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) return '';
+
+  canvas.width = pixelCrop.width;
+  canvas.height = pixelCrop.height;
+
+  ctx.drawImage(
+    image,
+    pixelCrop.x,
+    pixelCrop.y,
+    pixelCrop.width,
+    pixelCrop.height,
+    0,
+    0,
+    pixelCrop.width,
+    pixelCrop.height
+  );
+
+  return new Promise((resolve) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(URL.createObjectURL(blob));
+    }, 'image/jpeg');
+  });
+}
+
+// =================================================================
+// メインコンポーネント
+// =================================================================
+
+type Props = {
+  /** 切り抜く画像の URL */
+  imageSrc: string;
+  /** 切り抜いた画像の Object URL を返す（解放は呼び出し側で行う） */
+  onComplete: (croppedUrl: string) => void;
+  onCancel: () => void;
+};
+
+/**
+ * 写真を星座の描画領域と同じ比率（3:4）で切り抜く画面
+ * 日記の新規作成と編集で共通して使う
+ */
+export default function PhotoCropper({ imageSrc, onComplete, onCancel }: Props) {
+  const [crop, setCrop] = useState({ x: 0, y: 0 });
+  const [zoom, setZoom] = useState(1);
+  const [croppedAreaPixels, setCroppedAreaPixels] = useState<Area | null>(null);
+
+  const onCropComplete = useCallback((_croppedArea: Area, croppedAreaPixels: Area) => {
+    setCroppedAreaPixels(croppedAreaPixels);
+  }, []);
+
+  const handleCropConfirm = async () => {
+    if (!croppedAreaPixels) return;
+    try {
+      const croppedImage = await getCroppedImg(imageSrc, croppedAreaPixels);
+      onComplete(croppedImage);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+      background: '#0a0f1c', zIndex: 1000, display: 'flex', flexDirection: 'column'
+    }}>
+      <div style={{ position: 'relative', flex: 1, width: '100%' }}>
+        {/* ここで再定義した EasyCropper を使います */}
+        <EasyCropper
+          image={imageSrc}
+          crop={crop}
+          zoom={zoom}
+          aspect={CANVAS_CONSTANTS.CROP_ASPECT}
+          onCropChange={setCrop}
+          onCropComplete={onCropComplete}
+          onZoomChange={setZoom}
+        />
+      </div>
+
+      <div style={{
+        height: '100px', background: 'rgba(8, 11, 24, 0.95)', display: 'flex',
+        alignItems: 'center', justifyContent: 'center', gap: '20px', padding: '0 20px'
+      }}>
+        <div style={{ position: 'absolute', bottom: '110px', width: '80%', display: 'flex', justifyContent: 'center' }}>
+          <input
+            type="range"
+            value={zoom}
+            min={1}
+            max={3}
+            step={0.1}
+            onChange={(e) => setZoom(Number(e.target.value))}
+            style={{ width: '100%', maxWidth: '300px' }}
+          />
+        </div>
+
+        <button
+          onClick={onCancel}
+          className="btn"
+          style={{ padding: '10px 20px', background: 'rgba(60, 70, 100, 0.7)', borderRadius: '4px', border: 'none', color: 'rgba(210, 218, 240, 0.9)' }}
+        >
+          キャンセル
+        </button>
+        <button
+          onClick={handleCropConfirm}
+          className="btn btn-primary"
+          style={{ padding: '10px 20px', background: 'rgba(70, 130, 230, 0.85)', color: 'rgba(230, 235, 250, 0.95)', borderRadius: '4px', border: 'none' }}
+        >
+          決定する
+        </button>
+      </div>
+    </div>
+  );
+}
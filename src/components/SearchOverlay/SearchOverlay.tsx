@@ -0,0 +1,79 @@
+import { useMemo, useState } from 'react';
+import type { DiaryEntry } from '../../types';
+import { buildSearchIndex, searchEntries, type SearchHit } from '../../lib/search';
+import { formatDiaryDate } from '../../lib/date';
+import { useDiaryPhoto } from '../../hooks/useDiaryPhoto';
+import './SearchOverlay.css';
+
+interface SearchOverlayProps {
+  /** 検索対象の日記エントリ */
+  entries: DiaryEntry[];
+  /** 検索結果が選ばれたとき */
+  onSelect: (entry: DiaryEntry) => void;
+  onClose: () => void;
+}
+
+/**
+ * 検索結果の1行（写真のサムネイルは表示するときに読み込む）
+ */
+function SearchHitItem({ hit, onSelect }: { hit: SearchHit; onSelect: () => void }) {
+  const photoUrl = useDiaryPhoto(hit.entry.id);
+  const { start, length } = hit.highlight;
+
+  return (
+    <li>
+      <button className="search-overlay__hit" onClick={onSelect}>
+        <div className="search-overlay__thumb">
+          {photoUrl && <img src={photoUrl} alt="" />}
+        </div>
+        <div className="search-overlay__hit-body">
+          <span className="search-overlay__date">{formatDiaryDate(hit.entry.date)}</span>
+          <span className="search-overlay__snippet">
+            {hit.snippet.slice(0, start)}
+            <mark>{hit.snippet.slice(start, start + length)}</mark>
+            {hit.snippet.slice(start + length)}
+          </span>
+        </div>
+      </button>
+    </li>
+  );
+}
+
+/**
+ * メモの検索画面
+ */
+export function SearchOverlay({ entries, onSelect, onClose }: SearchOverlayProps) {
+  const [query, setQuery] = useState('');
+
+  const index = useMemo(() => buildSearchIndex(entries), [entries]);
+  const hits = useMemo(() => searchEntries(index, query), [index, query]);
+
+  return (
+    <div className="search-overlay__backdrop">
+      <div className="search-overlay">
+        <div className="search-overlay__header">
+          <input
+            type="search"
+            className="search-overlay__input"
+            placeholder="メモを検索"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            autoFocus
+          />
+          <button className="search-overlay__close" onClick={onClose} aria-label="閉じる">✖</button>
+        </div>
+
+        {query.trim() !== '' && hits.length === 0 && (
+          <p className="search-overlay__empty">見つかりませんでした</p>
+        )}
+        <ul className="search-overlay__list">
+          {hits.map((hit) => (
+            <SearchHitItem key={hit.entry.id} hit={hit} onSelect={() => onSelect(hit.entry)} />
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default SearchOverlay;
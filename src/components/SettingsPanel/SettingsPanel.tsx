@@ -0,0 +1,508 @@
+import { useEffect, useState, type ChangeEvent } from 'react';
+import type { AppSettings, ConstellationPack } from '../../types';
+import { downloadBackup, importBackup, type BackupImportMode } from '../../lib/backup';
+import { importConstellationPack } from '../../lib/constellationPacks';
+import {
+  findMisdatedEntries,
+  repairEntryDates,
+  enableVault,
+  changeVaultPassphrase,
+  disableVault,
+  getConstellationPacks,
+  setConstellationPackEnabled,
+  deleteConstellationPack,
+} from '../../lib/db';
+import { formatDiaryDate } from '../../lib/date';
+import { isVaultUnlocked } from '../../lib/crypto';
+import './SettingsPanel.css';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSettingsChange: (updates: Partial<AppSettings>) => Promise<void> | void;
+  /** データが変更されたとき（インポート後など）のコールバック */
+  onDataChanged: () => Promise<void> | void;
+  /** ゴミ箱を開く */
+  onOpenTrash: () => void;
+  /** 正解星座の作成画面を開く */
+  onOpenCustomConstellations: () => void;
+  /** 金庫をすぐにロックする */
+  onLock: () => void;
+  onClose: () => void;
+}
+
+/** 1日の区切りとして選べる時刻 */
+const DAY_END_HOUR_OPTIONS = [0, 1, 2, 3, 4, 5, 6];
+
+/** 1つの星座の星の数として選べる数（30 はおよそ1か月） */
+const CONSTELLATION_SIZE_OPTIONS = [3, 5, 7, 10, 30];
+
+/** ゴミ箱の保存期間として選べる日数 */
+const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+/** パスフレーズの最低文字数 */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * 設定パネル（日付の設定やバックアップなどのデータ管理）
+ */
+export function SettingsPanel({ settings, onSettingsChange, onDataChanged, onOpenTrash, onOpenCustomConstellations, onLock, onClose }: SettingsPanelProps) {
+  const [importMode, setImportMode] = useState<BackupImportMode>('merge');
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  // パスフレーズ保護の入力欄（現在のパスフレーズ / 新しいパスフレーズ）
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [vaultNewPassphrase, setVaultNewPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // 日付がずれているエントリ（確認するまでは null）
+  const [misdated, setMisdated] = useState<{ id: number; date: string; correctDate: string }[] | null>(null);
+  const [packs, setPacks] = useState<ConstellationPack[]>([]);
+
+  useEffect(() => {
+    getConstellationPacks()
+      .then(setPacks)
+      .catch((error) => console.error('星座パックの読み込みに失敗しました:', error));
+  }, []);
+
+  // ----- 日付の修復 -----
+  const handleCheckDates = async () => {
+    try {
+      const targets = await findMisdatedEntries(settings.dayEndHour);
+      setMisdated(targets.map(({ entry, correctDate }) => ({ id: entry.id!, date: entry.date, correctDate })));
+    } catch (error) {
+      console.error('日付の確認に失敗しました:', error);
+    }
+  };
+
+  const handleRepairDates = async () => {
+    setIsBusy(true);
+    try {
+      const count = await repairEntryDates(settings.dayEndHour);
+      await onDataChanged();
+      setMisdated(null);
+      setMessage(`${count}件の日付を修復しました`);
+    } catch (error) {
+      console.error('日付の修復に失敗しました:', error);
+      setMessage('日付の修復に失敗しました');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // ----- パスフレーズ保護 -----
+  const runVaultAction = async (action: () => Promise<void>, successMessage: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      await onDataChanged();
+      setVaultPassphrase('');
+      setVaultNewPassphrase('');
+      setMessage(successMessage);
+    } catch (error) {
+      console.error('パスフレーズの設定に失敗しました:', error);
+      setMessage(error instanceof Error ? error.message : 'パスフレーズの設定に失敗しました');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnableVault = () => {
+    if (vaultNewPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setMessage(`パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上にしてください`);
+      return;
+    }
+    runVaultAction(() => enableVault(vaultNewPassphrase), 'メモと写真をパスフレーズで保護しました');
+  };
+
+  const handleChangePassphrase = () => {
+    if (vaultNewPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setMessage(`パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上にしてください`);
+      return;
+    }
+    runVaultAction(
+      () => changeVaultPassphrase(vaultPassphrase, vaultNewPassphrase),
+      'パスフレーズを変更しました'
+    );
+  };
+
+  const handleDisableVault = () => {
+    if (!confirm('パスフレーズ保護を解除すると、メモと写真は暗号化されずに保存されます。よろしいですか？')) {
+      return;
+    }
+    runVaultAction(() => disableVault(vaultPassphrase), 'パスフレーズ保護を解除しました');
+  };
+
+  // ----- エクスポート -----
+  // ロック中は復号できないので書き出せない
+  const isVaultLocked = settings.vault !== null && !isVaultUnlocked();
+
+  const handleExport = async () => {
+    // 保護中のデータを平文のファイルにしないよう、バックアップも暗号化してもらう
+    if (settings.vault && !backupPassphrase) {
+      setMessage('パスフレーズ保護中は、バックアップ用のパスフレーズを入力してください');
+      return;
+    }
+
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await downloadBackup(backupPassphrase || undefined);
+      setMessage('バックアップを書き出しました');
+    } catch (error) {
+      console.error('バックアップの書き出しに失敗しました:', error);
+      setMessage(error instanceof Error ? error.message : 'バックアップの書き出しに失敗しました');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // ----- インポート -----
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 同じファイルを続けて選べるようにリセット
+    e.target.value = '';
+    if (!file) return;
+
+    if (importMode === 'replace' && !confirm('現在のデータはすべて置き換えられます（置き換える前のデータはゴミ箱に入ります）。よろしいですか？')) {
+      return;
+    }
+
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const summary = await importBackup(file, importMode, backupPassphrase || undefined);
+      await onDataChanged();
+      setMessage(
+        `${summary.importedEntries}件の記録と${summary.importedConstellations}個の星座を復元しました` +
+        (summary.skippedEntries > 0 ? `（重複${summary.skippedEntries}件はスキップ）` : '') +
+        (summary.skippedConstellations > 0 ? `（星がそろわない星座${summary.skippedConstellations}個はスキップ）` : '')
+      );
+    } catch (error) {
+      console.error('バックアップの読み込みに失敗しました:', error);
+      setMessage(error instanceof Error ? error.message : 'バックアップの読み込みに失敗しました');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // ----- 星座パック -----
+  // パックを変えたら判定用のレジストリも読み込み直す（onDataChanged）
+  const reloadPacks = async () => {
+    setPacks(await getConstellationPacks());
+    await onDataChanged();
+  };
+
+  const handleImportPack = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const manifest = await importConstellationPack(file);
+      await reloadPacks();
+      setMessage(`「${manifest.name}」（${manifest.constellations.length}個の星座）を読み込みました`);
+    } catch (error) {
+      console.error('星座パックの読み込みに失敗しました:', error);
+      setMessage(error instanceof Error ? error.message : '星座パックの読み込みに失敗しました');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTogglePack = async (pack: ConstellationPack) => {
+    try {
+      await setConstellationPackEnabled(pack.packId, !pack.enabled);
+      await reloadPacks();
+    } catch (error) {
+      console.error('星座パックの切り替えに失敗しました:', error);
+    }
+  };
+
+  const handleDeletePack = async (pack: ConstellationPack) => {
+    if (!confirm(`星座パック「${pack.name}」を削除しますか？`)) return;
+    try {
+      await deleteConstellationPack(pack.packId);
+      await reloadPacks();
+    } catch (error) {
+      console.error('星座パックの削除に失敗しました:', error);
+    }
+  };
+
+  return (
+    <div className="settings-panel__backdrop">
+      <div className="settings-panel">
+        <div className="settings-panel__header">
+          <h2 className="settings-panel__title">設定</h2>
+          <button className="settings-panel__close" onClick={onClose} aria-label="閉じる">✖</button>
+        </div>
+
+        {/* 1日の区切り */}
+        <section className="settings-panel__section">
+          <h3 className="settings-panel__section-title">1日の区切り</h3>
+          <p className="settings-panel__hint">
+            この時刻までに書いた記録は前の日の記録になります。
+          </p>
+          <select
+            className="settings-panel__select"
+            value={settings.dayEndHour}
+            onChange={(e) => {
+              onSettingsChange({ dayEndHour: Number(e.target.value) });
+              setMisdated(null);
+            }}
+          >
+            {DAY_END_HOUR_OPTIONS.map((hour) => (
+              <option key={hour} value={hour}>
+                {hour === 0 ? '0時（深夜0時で切り替え）' : `深夜${hour}時`}
+              </option>
+            ))}
+          </select>
+        </section>
+
+        {/* 星座のまとめ方 */}
+        <section className="settings-panel__section">
+          <h3 className="settings-panel__section-title">星座のまとめ方</h3>
+          <p className="settings-panel__hint">
+            1週間ごとにすると、書かなかった日のぶん星の少ない星座になります。
+            すでにできた星座の星の数は変わりません。
+          </p>
+          <div className="settings-panel__options">
+            <label>
+              <input
+                type="radio"
+                name="constellation-grouping"
+                checked={settings.constellationGrouping === 'count'}
+                onChange={() => onSettingsChange({ constellationGrouping: 'count' })}
+              />
+              件数ごと
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="constellation-grouping"
+                checked={settings.constellationGrouping === 'week'}
+                onChange={() => onSettingsChange({ constellationGrouping: 'week' })}
+              />
+              1週間（月〜日）ごと
+            </label>
+          </div>
+          <select
+            className="settings-panel__select"
+            value={settings.constellationSize}
+            disabled={settings.constellationGrouping === 'week'}
+            onChange={(e) => onSettingsChange({ constellationSize: Number(e.target.value) })}
+          >
+            {CONSTELLATION_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size === 30 ? '30件ごと（およそ1か月）' : `${size}件ごと`}
+              </option>
+            ))}
+          </select>
+        </section>
+
+        {/* 日付の修復 */}
+        <section className="settings-panel__section">
+          <h3 className="settings-panel__section-title">日付の修復</h3>
+          <p className="settings-panel__hint">
+            以前のバージョンでは朝早くに書いた記録が前日の日付で保存されることがありました。
+          </p>
+          {misdated === null ? (
+            <button className="btn" onClick={handleCheckDates} disabled={isBusy}>
+              ずれている記録を探す
+            </button>
+          ) : misdated.length === 0 ? (
+            <p className="settings-panel__hint">ずれている記録はありません</p>
+          ) : (
+            <>
+              <ul className="settings-panel__list">
+                {misdated.map((item) => (
+                  <li key={item.id}>
+                    {formatDiaryDate(item.date)} → {formatDiaryDate(item.correctDate)}
+                  </li>
+                ))}
+              </ul>
+              <button className="btn btn-primary" onClick={handleRepairDates} disabled={isBusy}>
+                {misdated.length}件を修復する
+              </button>
+            </>
+          )}
+        </section>
+
+        {/* バックアップ */}
+        <section className="settings-panel__section">
+          <h3 className="settings-panel__section-title">バックアップ</h3>
+          <p className="settings-panel__hint">
+            記録・写真・星座をまとめて1つのファイルに保存します。機種変更の前などにどうぞ。
+          </p>
+          <input
+            type="password"
+            className="settings-panel__input"
+            placeholder={settings.vault ? 'バックアップのパスフレーズ' : 'バックアップのパスフレーズ（空欄なら暗号化しない）'}
+            value={backupPassphrase}
+            onChange={(e) => setBackupPassphrase(e.target.value)}
+            autoComplete="off"
+          />
+          <button className="btn btn-primary" onClick={handleExport} disabled={isBusy || isVaultLocked}>
+            書き出す
+          </button>
+          {isVaultLocked && (
+            <p className="settings-panel__hint">金庫がロックされているため書き出せません</p>
+          )}
+
+          <div className="settings-panel__options">
+            <label>
+              <input
+                type="radio"
+                name="import-mode"
+                checked={importMode === 'merge'}
+                onChange={() => setImportMode('merge')}
+              />
+              今のデータに追加
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="import-mode"
+                checked={importMode === 'replace'}
+                onChange={() => setImportMode('replace')}
+              />
+              すべて置き換え
+            </label>
+          </div>
+          <label className={`btn settings-panel__file-button ${isBusy ? 'is-disabled' : ''}`}>
+            ファイルから復元
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              disabled={isBusy}
+              hidden
+            />
+          </label>
+        </section>
+
+        {/* パスフレーズ保護 */}
+        <section className="settings-panel__section">
+          <h3 className="settings-panel__section-title">パスフレーズ保護</h3>
+          <p className="settings-panel__hint">
+            メモと写真を暗号化し、開くときにパスフレーズを求めます。
+            星の位置と日付は暗号化されないので、ロック中も星空は見えます。
+            パスフレーズを忘れると記録は戻せません。
+          </p>
+          {settings.vault ? (
+            <>
+              <input
+                type="password"
+                className="settings-panel__input"
+                placeholder="現在のパスフレーズ"
+                value={vaultPassphrase}
+                onChange={(e) => setVaultPassphrase(e.target.value)}
+                autoComplete="current-password"
+              />
+              <input
+                type="password"
+                className="settings-panel__input"
+                placeholder="新しいパスフレーズ"
+                value={vaultNewPassphrase}
+                onChange={(e) => setVaultNewPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <button className="btn btn-primary" onClick={handleChangePassphrase} disabled={isBusy || !vaultPassphrase}>
+                パスフレーズを変更する
+              </button>
+              <button className="btn" onClick={handleDisableVault} disabled={isBusy || !vaultPassphrase}>
+                保護を解除する
+              </button>
+              <button className="btn" onClick={onLock} disabled={isBusy}>
+                今すぐロックする
+              </button>
+            </>
+          ) : (
+            <>
+              <input
+                type="password"
+                className="settings-panel__input"
+                placeholder={`パスフレーズ（${MIN_PASSPHRASE_LENGTH}文字以上）`}
+                value={vaultNewPassphrase}
+                onChange={(e) => setVaultNewPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <button className="btn btn-primary" onClick={handleEnableVault} disabled={isBusy}>
+                パスフレーズで保護する
+              </button>
+            </>
+          )}
+        </section>
+
+        {/* ゴミ箱 */}
+        <section className="settings-panel__section">
+          <h3 className="settings-panel__section-title">ゴミ箱</h3>
+          <p className="settings-panel__hint">
+            削除した記録や星座は、しばらくゴミ箱に残るので元に戻せます。
+          </p>
+          <select
+            className="settings-panel__select"
+            value={settings.trashRetentionDays}
+            onChange={(e) => onSettingsChange({ trashRetentionDays: Number(e.target.value) })}
+          >
+            {TRASH_RETENTION_OPTIONS.map((days) => (
+              <option key={days} value={days}>{days}日後に完全に削除</option>
+            ))}
+          </select>
+          <button className="btn" onClick={onOpenTrash}>
+            ゴミ箱を開く
+          </button>
+        </section>
+
+        {/* 正解星座 */}
+        <section className="settings-panel__section">
+          <h3 className="settings-panel__section-title">星座の形</h3>
+          <p className="settings-panel__hint">
+            自分で星を置いて絵を描くと、その形も星座の判定に使われます。
+          </p>
+          <button className="btn" onClick={onOpenCustomConstellations}>
+            星座の形をつくる
+          </button>
+        </section>
+
+        {/* 星座パック */}
+        <section className="settings-panel__section">
+          <h3 className="settings-panel__section-title">星座パック</h3>
+          <p className="settings-panel__hint">
+            テーマごとの星座の形をまとめたファイルです。有効にしたパックの形も判定に使われます。
+          </p>
+          {packs.length > 0 && (
+            <ul className="settings-panel__packs">
+              {packs.map((pack) => (
+                <li key={pack.packId} className="settings-panel__pack">
+                  <label>
+                    <input type="checkbox" checked={pack.enabled} onChange={() => handleTogglePack(pack)} />
+                    {pack.name}（{pack.constellations.length}）
+                  </label>
+                  <button className="settings-panel__pack-delete" onClick={() => handleDeletePack(pack)} aria-label="削除">
+                    🗑
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <label className={`btn settings-panel__file-button ${isBusy ? 'is-disabled' : ''}`}>
+            パックを読み込む
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportPack}
+              disabled={isBusy}
+              hidden
+            />
+          </label>
+        </section>
+
+        {message && <p className="settings-panel__message">{message}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default SettingsPanel;
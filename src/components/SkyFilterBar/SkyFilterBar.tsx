@@ -0,0 +1,56 @@
+import type { SkyFilter } from '../../types';
+import { MOOD_OPTIONS } from '../../data/moods';
+import './SkyFilterBar.css';
+
+interface SkyFilterBarProps {
+  filter: SkyFilter;
+  /** 選べるタグ */
+  tags: string[];
+  /** 条件に一致した星の数（絞り込み中のみ） */
+  matchCount: number | null;
+  onChange: (filter: SkyFilter) => void;
+}
+
+/**
+ * ホーム画面の絞り込みバー
+ * 気分・タグを選ぶと、一致しない星が星空の中で暗くなる
+ */
+export function SkyFilterBar({ filter, tags, matchCount, onChange }: SkyFilterBarProps) {
+  const isActive = filter.tag !== null || filter.mood !== null;
+
+  return (
+    <div className="sky-filter-bar">
+      <div className="sky-filter-bar__chips">
+        {MOOD_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            className={`sky-filter-bar__chip ${filter.mood === option.value ? 'is-selected' : ''}`}
+            onClick={() => onChange({ ...filter, mood: filter.mood === option.value ? null : option.value })}
+            title={option.label}
+          >
+            {option.emoji}
+          </button>
+        ))}
+        {tags.map((tag) => (
+          <button
+            key={tag}
+            className={`sky-filter-bar__chip ${filter.tag === tag ? 'is-selected' : ''}`}
+            onClick={() => onChange({ ...filter, tag: filter.tag === tag ? null : tag })}
+          >
+            #{tag}
+          </button>
+        ))}
+      </div>
+      {isActive && (
+        <div className="sky-filter-bar__status">
+          {matchCount !== null && <span>{matchCount}個の星</span>}
+          <button className="sky-filter-bar__clear" onClick={() => onChange({ tag: null, mood: null })}>
+            解除
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SkyFilterBar;
@@ -1,11 +1,25 @@
-import type { DiaryEntry } from '../../types';
+import { useState } from 'react';
+import type { DiaryEntry, ConstellationDeleteMode } from '../../types';
+import { UNASSIGNED_CONSTELLATION_ID } from '../../types';
+import { useDiaryPhoto } from '../../hooks/useDiaryPhoto';
+import { formatDiaryDate } from '../../lib/date';
+import { getMoodOption } from '../../data/moods';
 
 type Props = {
   entry: DiaryEntry;      // 表示したい日記データ
   onClose: () => void;    // 閉じるボタンの処理
+  onEdit?: () => void;    // 編集ボタンの処理
+  onDelete?: (mode: ConstellationDeleteMode) => void; // 削除ボタンの処理
 };
 
-export default function StarDetail({ entry, onClose }: Props) {//引数はpropsのデータと閉じるボタン
+export default function StarDetail({ entry, onClose, onEdit, onDelete }: Props) {//引数はpropsのデータと閉じるボタン
+  // 写真は一覧に含まれないので、開いたときにだけ読み込む
+  const photoUrl = useDiaryPhoto(entry.id);
+  // 削除の確認表示中かどうか
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const belongsToConstellation = entry.constellationId !== UNASSIGNED_CONSTELLATION_ID;
+
   const handleBackgroundClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) onClose();//親がおされない、ターゲットがカレントターゲットと同じな閉じる
   };
@@ -46,20 +60,87 @@ export default function StarDetail({ entry, onClose }: Props) {//引数はprops
 
         {/* 日付表示 */}
         <h3 style={{ marginTop: 0, borderBottom: '1px solid #eee', paddingBottom: '10px' }}>
-           {new Date(entry.date).toLocaleDateString()}{/*日付データをわかりやすく変換 */}
+           {formatDiaryDate(entry.date)}{/*日付データをわかりやすく変換 */}
+           {entry.mood && (
+             <span title={getMoodOption(entry.mood)?.label} style={{ marginLeft: '8px' }}>
+               {getMoodOption(entry.mood)?.emoji}
+             </span>
+           )}
         </h3>
 
-        {entry.photoBlob && (
+        {photoUrl && (
           <img 
-            src={URL.createObjectURL(entry.photoBlob)} 
+            src={photoUrl} 
             alt="記録" 
             style={{ width: '100%', borderRadius: '8px', marginTop: '10px' }} 
           />
         )}
 
         <p style={{ marginTop: '15px', color: '#ffffffbd', lineHeight: '1.6' }}>
-            {entry.memo || "（メモはありません）"}{/*メモがなければ表示される文章*/}
+            {entry.isLost
+              ? "（この星の記録は失われました）"
+              : entry.memo || "（メモはありません）"}{/*メモがなければ表示される文章*/}
         </p>
+
+        {/* タグ */}
+        {!entry.isLost && entry.tags && entry.tags.length > 0 && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+            {entry.tags.map((tag) => (
+              <span
+                key={tag}
+                style={{ padding: '2px 8px', fontSize: '0.8rem', borderRadius: '999px', background: 'rgba(100, 120, 160, 0.3)' }}
+              >
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* 編集・削除 */}
+        {!isConfirmingDelete && (onEdit || onDelete) && (
+          <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+            {onEdit && !entry.isLost && (
+              <button className="btn" style={{ flex: 1, borderRadius: '4px' }} onClick={onEdit}>
+                編集する
+              </button>
+            )}
+            {onDelete && (
+              <button className="btn" style={{ flex: 1, borderRadius: '4px', color: 'rgba(255, 150, 150, 0.9)' }} onClick={() => setIsConfirmingDelete(true)}>
+                削除する
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* 削除の確認（星座に属している場合は星座の扱いを選ぶ） */}
+        {isConfirmingDelete && onDelete && (
+          <div style={{ marginTop: '16px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <p style={{ fontSize: '0.9rem', color: 'rgba(220, 200, 200, 0.9)' }}>
+              {belongsToConstellation
+                ? 'この星は星座の一部です。星座をどうしますか？'
+                : 'この記録を削除しますか？'}
+            </p>
+            {belongsToConstellation ? (
+              <>
+                {!entry.isLost && (
+                  <button className="btn" style={{ borderRadius: '4px' }} onClick={() => onDelete('keep-lost-star')}>
+                    星座は残す（失われた星として残す）
+                  </button>
+                )}
+                <button className="btn" style={{ borderRadius: '4px' }} onClick={() => onDelete('dissolve')}>
+                  星座を解散して星をばらばらに戻す
+                </button>
+              </>
+            ) : (
+              <button className="btn" style={{ borderRadius: '4px', color: 'rgba(255, 150, 150, 0.9)' }} onClick={() => onDelete('dissolve')}>
+                削除する
+              </button>
+            )}
+            <button className="btn" style={{ borderRadius: '4px', background: 'none' }} onClick={() => setIsConfirmingDelete(false)}>
+              やめる
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -5,12 +5,14 @@ import { CANVAS_CONSTANTS } from '../../types';
 //    保存処理もここには書きません。
 type Props = {
   photoUrl: string;
+  /** 最初に表示しておく星の位置（編集時） */
+  initialPosition?: { x: number, y: number } | null;
   onComplete: (x: number, y: number) => void; // 座標を親に返す
   onBack: () => void; // 戻るボタン用
 };
 
-export default function StarPlacer({ photoUrl, onComplete, onBack }: Props) {
-  const [starPos, setStarPos] = useState<{ x: number, y: number } | null>(null);
+export default function StarPlacer({ photoUrl, initialPosition = null, onComplete, onBack }: Props) {
+  const [starPos, setStarPos] = useState<{ x: number, y: number } | null>(initialPosition);
   const [cursorPos, setCursorPos] = useState<{ x: number, y: number } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
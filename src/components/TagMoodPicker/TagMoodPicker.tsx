@@ -0,0 +1,98 @@
+import { useEffect, useState, type KeyboardEvent } from 'react';
+import type { Mood } from '../../types';
+import { MOOD_OPTIONS } from '../../data/moods';
+import { getAllTags, normalizeTags } from '../../lib/db';
+import './TagMoodPicker.css';
+
+interface TagMoodPickerProps {
+  tags: string[];
+  mood: Mood | undefined;
+  onTagsChange: (tags: string[]) => void;
+  onMoodChange: (mood: Mood | undefined) => void;
+}
+
+/**
+ * 日記の気分とタグを選ぶ欄（新規作成と編集で共通）
+ */
+export function TagMoodPicker({ tags, mood, onTagsChange, onMoodChange }: TagMoodPickerProps) {
+  const [input, setInput] = useState('');
+  // これまでに使ったタグ（候補として表示する）
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    getAllTags()
+      .then(setKnownTags)
+      .catch((error) => console.error('タグの読み込みに失敗しました:', error));
+  }, []);
+
+  const addTag = (tag: string) => {
+    onTagsChange(normalizeTags([...tags, tag]));
+    setInput('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    // 変換確定の Enter では追加しない
+    if (e.nativeEvent.isComposing) return;
+    if ((e.key === 'Enter' || e.key === ',' || e.key === '、') && input.trim()) {
+      e.preventDefault();
+      addTag(input);
+    }
+  };
+
+  const suggestions = knownTags.filter((tag) => !tags.includes(tag));
+
+  return (
+    <div className="tag-mood-picker">
+      <div className="tag-mood-picker__moods" role="radiogroup" aria-label="気分">
+        {MOOD_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={mood === option.value}
+            className={`tag-mood-picker__mood ${mood === option.value ? 'is-selected' : ''}`}
+            onClick={() => onMoodChange(mood === option.value ? undefined : option.value)}
+            title={option.label}
+          >
+            {option.emoji}
+          </button>
+        ))}
+      </div>
+
+      <div className="tag-mood-picker__tags">
+        {tags.map((tag) => (
+          <span key={tag} className="tag-mood-picker__tag">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onTagsChange(tags.filter((t) => t !== tag))}
+              aria-label={`${tag} を外す`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          className="tag-mood-picker__input"
+          placeholder="タグを追加"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && addTag(input)}
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="tag-mood-picker__suggestions">
+          {suggestions.map((tag) => (
+            <button key={tag} type="button" className="tag-mood-picker__suggestion" onClick={() => addTag(tag)}>
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TagMoodPicker;
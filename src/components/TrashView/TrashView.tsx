@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import type { TrashItem } from '../../types';
+import { getTrashItems, restoreFromTrash, purgeTrashItem } from '../../lib/db';
+import './TrashView.css';
+
+interface TrashViewProps {
+  /** ゴミ箱に入れたものを完全に削除するまでの日数 */
+  retentionDays: number;
+  /** 復元したとき（データ再読み込み用）のコールバック */
+  onRestored: () => Promise<void> | void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<TrashItem['kind'], string> = {
+  entry: '記録',
+  constellation: '星座',
+  all: 'リセット',
+};
+
+/**
+ * ゴミ箱画面
+ * 削除した記録・星座を元に戻したり、完全に削除したりできる
+ */
+export function TrashView({ retentionDays, onRestored, onClose }: TrashViewProps) {
+  const [items, setItems] = useState<TrashItem[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const reload = async () => {
+    try {
+      setItems(await getTrashItems());
+    } catch (error) {
+      console.error('ゴミ箱の読み込みに失敗しました:', error);
+    }
+  };
+
+  useEffect(() => {
+    getTrashItems()
+      .then(setItems)
+      .catch((error) => console.error('ゴミ箱の読み込みに失敗しました:', error));
+  }, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    setMessage(null);
+    try {
+      await restoreFromTrash(item.id!);
+      await onRestored();
+      setMessage(`「${item.label}」を元に戻しました`);
+    } catch (error) {
+      console.error('復元に失敗しました:', error);
+      setMessage(error instanceof Error ? error.message : '復元に失敗しました');
+    }
+    await reload();
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!confirm(`「${item.label}」を完全に削除します。元に戻せません。よろしいですか？`)) return;
+    try {
+      await purgeTrashItem(item.id!);
+    } catch (error) {
+      console.error('完全削除に失敗しました:', error);
+    }
+    await reload();
+  };
+
+  // 完全削除される日
+  const expiresAt = (item: TrashItem) =>
+    new Date(new Date(item.deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+
+  return (
+    <div className="trash-view__backdrop">
+      <div className="trash-view">
+        <div className="trash-view__header">
+          <h2 className="trash-view__title">ゴミ箱</h2>
+          <button className="trash-view__close" onClick={onClose} aria-label="閉じる">✖</button>
+        </div>
+        <p className="trash-view__hint">
+          削除したものは{retentionDays}日後に完全に削除されます。
+        </p>
+
+        {items === null ? null : items.length === 0 ? (
+          <p className="trash-view__empty">ゴミ箱は空です</p>
+        ) : (
+          <ul className="trash-view__list">
+            {items.map((item) => (
+              <li key={item.id} className="trash-view__item">
+                <div className="trash-view__item-info">
+                  <span className="trash-view__kind">{KIND_LABELS[item.kind]}</span>
+                  <span className="trash-view__label">{item.label}</span>
+                  <span className="trash-view__date">
+                    {expiresAt(item).toLocaleDateString()} に完全削除
+                  </span>
+                </div>
+                <div className="trash-view__actions">
+                  <button className="btn btn-primary" onClick={() => handleRestore(item)}>元に戻す</button>
+                  <button className="btn" onClick={() => handlePurge(item)}>完全に削除</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {message && <p className="trash-view__message">{message}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default TrashView;
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import './UndoToast.css';
+
+interface UndoToastProps {
+  /** 表示するメッセージ */
+  message: string;
+  /** 「元に戻す」が押されたとき */
+  onUndo: () => void;
+  /** 時間切れ・閉じるボタンで消えるとき */
+  onDismiss: () => void;
+  /** 表示時間（ミリ秒） */
+  duration?: number;
+}
+
+/**
+ * 削除などの直後に表示する「元に戻す」トースト
+ */
+export function UndoToast({ message, onUndo, onDismiss, duration = 6000 }: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [onDismiss, duration]);
+
+  return (
+    <div className="undo-toast" role="status">
+      <span className="undo-toast__message">{message}</span>
+      <button className="undo-toast__button" onClick={onUndo}>元に戻す</button>
+      <button className="undo-toast__close" onClick={onDismiss} aria-label="閉じる">✖</button>
+    </div>
+  );
+}
+
+export default UndoToast;
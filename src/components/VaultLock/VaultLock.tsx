@@ -0,0 +1,56 @@
+import { useState, type FormEvent } from 'react';
+import './VaultLock.css';
+
+interface VaultLockProps {
+  /** パスフレーズで解錠する（違う場合は例外） */
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+/**
+ * パスフレーズ保護中のロック画面
+ * 背景の星空（位置と日付は暗号化されていない）はそのまま見せる
+ */
+export function VaultLock({ onUnlock }: VaultLockProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      console.error('ロックの解除に失敗しました:', err);
+      setError(err instanceof Error ? err.message : 'ロックの解除に失敗しました');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="vault-lock">
+      <form className="vault-lock__form" onSubmit={handleSubmit}>
+        <h1 className="vault-lock__title">星座日記</h1>
+        <p className="vault-lock__hint">パスフレーズを入力して記録をひらきます</p>
+        <input
+          type="password"
+          className="vault-lock__input"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="パスフレーズ"
+          autoComplete="current-password"
+          autoFocus
+        />
+        <button type="submit" className="btn btn-primary" disabled={isUnlocking || !passphrase}>
+          {isUnlocking ? 'ひらいています…' : 'ひらく'}
+        </button>
+        {error && <p className="vault-lock__error">{error}</p>}
+      </form>
+    </div>
+  );
+}
+
+export default VaultLock;
@@ -19,8 +19,10 @@ export interface ReferenceConstellation {
     id: string;
     /** 日本語名 */
     name: string;
-    /** 正規化された点群 (0-1範囲) - 7点 */
+    /** 正規化された点群 (0-1範囲) - 点数は星座ごとに違ってよい */
     points: Point2D[];
+    /** 星座線（points のインデックスの組） */
+    edges: [number, number][];
     /** SVGファイルへのパス（assetsからの相対パス） */
     svgPath: string;
 }
@@ -53,6 +55,8 @@ const kurageConstellation: ReferenceConstellation = {
         // 右の触手先端
         { x: 0.71, y: 0.88 },
     ],
+    // 傘の輪郭と、分岐点から伸びる3本の触手
+    edges: [[1, 0], [0, 2], [1, 3], [2, 3], [3, 4], [3, 5], [3, 6]],
     svgPath: '/constellations/kurage.svg',
 };
 
@@ -80,6 +84,8 @@ const irukaConstellation: ReferenceConstellation = {
         // 尾の先端下
         { x: 0.57, y: 0.94 },
     ],
+    // 頭から背びれ、尾へと体の線をなぞる
+    edges: [[0, 1], [1, 2], [2, 3], [3, 4], [2, 4], [4, 5], [4, 6]],
     svgPath: '/constellations/iruka.svg',
 };
 
@@ -107,6 +113,8 @@ const sasoriConstellation: ReferenceConstellation = {
         // 尾の先端（下）
         { x: 0.70, y: 0.99 },
     ],
+    // 爪から頭・体を通って尾の先へ
+    edges: [[0, 2], [1, 3], [2, 3], [3, 4], [4, 6], [6, 5]],
     svgPath: '/constellations/sasori.svg',
 };
 
@@ -134,6 +142,8 @@ const pizzaConstellation: ReferenceConstellation = {
         // トッピング3
         { x: 0.65, y: 0.65 },
     ],
+    // ピースの輪郭とトッピングの並び
+    edges: [[0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6]],
     svgPath: '/constellations/pizza.svg',
 };
 
@@ -161,6 +171,8 @@ const swordConstellation: ReferenceConstellation = {
         // 柄頭（ポンメル）
         { x: 0.25, y: 0.90 },
     ],
+    // 刃から鍔・柄を通って柄頭へ
+    edges: [[0, 1], [0, 2], [1, 3], [2, 4], [3, 5], [4, 5], [5, 6]],
     svgPath: '/constellations/sword.svg',
 };
 
@@ -188,6 +200,8 @@ const eiConstellation: ReferenceConstellation = {
         // 尾の先端
         { x: 0.05, y: 0.95 },
     ],
+    // ひし形の体と長い尾
+    edges: [[0, 1], [0, 2], [1, 3], [2, 3], [3, 4], [4, 5], [5, 6]],
     svgPath: '/constellations/ei.svg',
 };
 
@@ -215,6 +229,8 @@ const gyozaConstellation: ReferenceConstellation = {
         // 底部（右）
         { x: 0.65, y: 0.75 },
     ],
+    // ひだと底をぐるりと囲む輪郭
+    edges: [[0, 1], [1, 2], [2, 3], [3, 4], [4, 6], [6, 5], [5, 0]],
     svgPath: '/constellations/gyoza.svg',
 };
 
@@ -237,15 +253,50 @@ export const referenceConstellations: ReferenceConstellation[] = [
 ];
 
 /**
- * IDで星座を検索
+ * ユーザーが作った正解星座・星座パック（起動時に DB から読み込んで登録する）
+ */
+let customConstellations: ReferenceConstellation[] = [];
+
+/**
+ * 無効にした星座パックの星座（判定には使わないが、保存済みの判定結果の表示には使う）
+ */
+let inactiveConstellations: ReferenceConstellation[] = [];
+
+/**
+ * ユーザーが作った正解星座・星座パックを登録し直す
+ */
+export function setCustomConstellations(
+    constellations: ReferenceConstellation[],
+    inactive: ReferenceConstellation[] = []
+): void {
+    customConstellations = constellations;
+    inactiveConstellations = inactive;
+}
+
+/**
+ * 判定に使う、ユーザーが作った正解星座・有効な星座パックの星座
+ */
+export function getCustomConstellations(): ReferenceConstellation[] {
+    return customConstellations;
+}
+
+/**
+ * 組み込みとユーザー作成を合わせた、判定に使う全ての正解星座
+ */
+export function getAllReferenceConstellations(): ReferenceConstellation[] {
+    return [...referenceConstellations, ...customConstellations];
+}
+
+/**
+ * IDで星座を検索（ユーザーが作った星座・無効にしたパックの星座も含む）
  */
 export function getConstellationById(id: string): ReferenceConstellation | undefined {
-    return referenceConstellations.find(c => c.id === id);
+    return [...getAllReferenceConstellations(), ...inactiveConstellations].find(c => c.id === id);
 }
 
 /**
- * 名前で星座を検索
+ * 名前で星座を検索（ユーザーが作った星座も含む）
  */
 export function getConstellationByName(name: string): ReferenceConstellation | undefined {
-    return referenceConstellations.find(c => c.name === name);
+    return getAllReferenceConstellations().find(c => c.name === name);
 }
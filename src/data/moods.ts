@@ -0,0 +1,29 @@
+// ============================================
+// 気分の選択肢
+// ============================================
+
+import type { Mood } from '../types';
+
+export interface MoodOption {
+  value: Mood;
+  emoji: string;
+  label: string;
+}
+
+/**
+ * 日記で選べる気分（表示順）
+ */
+export const MOOD_OPTIONS: MoodOption[] = [
+  { value: 'great', emoji: '😆', label: 'さいこう' },
+  { value: 'good', emoji: '🙂', label: 'いい感じ' },
+  { value: 'calm', emoji: '😌', label: 'おだやか' },
+  { value: 'tired', emoji: '😪', label: 'つかれた' },
+  { value: 'sad', emoji: '😢', label: 'かなしい' },
+];
+
+/**
+ * 気分の選択肢を取得する
+ */
+export function getMoodOption(mood: Mood): MoodOption | undefined {
+  return MOOD_OPTIONS.find((option) => option.value === mood);
+}
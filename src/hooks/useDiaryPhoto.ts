@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { getDiaryPhoto } from '../lib/db';
+
+/**
+ * 日記エントリの写真を読み込み、Object URL を返すカスタムフック
+ *
+ * 写真は一覧データに含まれないため、表示するときにだけ読み込む。
+ * URL はアンマウント時・エントリ変更時に必ず解放する。
+ *
+ * @param entryId - 写真を読み込むエントリの ID
+ * @param reloadKey - 値が変わると読み込み直す（写真を差し替えた後など）
+ * @returns 写真の Object URL（読み込み中・写真なしの場合は null）
+ */
+export function useDiaryPhoto(entryId: number | undefined, reloadKey: unknown = null): string | null {
+  const [photo, setPhoto] = useState<{ entryId: number; url: string } | null>(null);
+
+  useEffect(() => {
+    if (entryId === undefined) return;
+    let cancelled = false;
+    let url: string | null = null;
+
+    getDiaryPhoto(entryId)
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setPhoto({ entryId, url });
+      })
+      .catch((error) => console.error('写真の読み込みに失敗しました:', error));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [entryId, reloadKey]);
+
+  // 別のエントリの写真が残っていても返さない
+  return photo && photo.entryId === entryId ? photo.url : null;
+}
+
+export default useDiaryPhoto;
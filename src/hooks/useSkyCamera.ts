@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Camera } from '../types';
+import { CANVAS_CONSTANTS } from '../types';
+
+/** スワイプの閾値（この値以上スワイプしたら次/前の星座へ） */
+const SWIPE_THRESHOLD = 50;
+
+/** これより動かさずに指を離したらタップとみなす（px） */
+const TAP_THRESHOLD = 8;
+
+/** 拡大の上限 */
+const MAX_ZOOM = 3;
+
+/** ホイールの回転量あたりの拡大率の変化 */
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+/** カメラが目標の位置に追いつくまでの時間（ミリ秒） */
+const EASE_DURATION = 500;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** 拡大率と、星座の中心からのずらし量（画面の px） */
+interface CameraView {
+  zoom: number;
+  pan: Point;
+}
+
+/** 指を置いてから離すまでの操作 */
+interface Gesture {
+  start: Point;
+  startPan: Point;
+  /** 操作を始めたときに自由に動かせる状態だったか（拡大縮小・ずらし中） */
+  isFree: boolean;
+  /** タップではなく、動かしたか */
+  moved: boolean;
+  /** 2本指のとき、つまみ始めの状態 */
+  pinch: { distance: number; midpoint: Point; view: CameraView } | null;
+}
+
+interface UseSkyCameraOptions {
+  /** 中央に表示している星座グループ */
+  groupIndex: number;
+  onGroupIndexChange: (index: number) => void;
+  /** 星座グループの数（作成中のグループを含む） */
+  groupCount: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  /** 操作を受け付けるかどうか（ホーム画面のときだけ） */
+  enabled: boolean;
+}
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+const lerpCamera = (from: Camera, to: Camera, t: number): Camera => ({
+  x: from.x + (to.x - from.x) * t,
+  y: from.y + (to.y - from.y) * t,
+  scale: from.scale + (to.scale - from.scale) * t,
+});
+
+const getMidpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * 拡大率とずらし量から、カメラの位置を求める
+ * 拡大率 1・ずらしなしのとき、星座グループが画面の中央に来る
+ */
+function toCamera(v: CameraView, groupIndex: number, viewportWidth: number, viewportHeight: number, dragDelta = 0): Camera {
+  const W = CANVAS_CONSTANTS.CONSTELLATION_WIDTH;
+  return {
+    x: viewportWidth / 2 - (groupIndex * W + W / 2) * v.zoom + v.pan.x + dragDelta,
+    y: viewportHeight / 2 - (viewportHeight / 2) * v.zoom + v.pan.y,
+    scale: v.zoom,
+  };
+}
+
+/**
+ * 星空のカメラ（拡大縮小とずらし）を管理するカスタムフック
+ *
+ * 拡大率 1 でずらしていないときは、これまでどおり横スワイプで星座グループを切り替える。
+ * ピンチやホイールで拡大縮小すると自由に動かせるようになり、
+ * 全体表示（縮小）中のタップでその星座グループに寄る。
+ */
+export function useSkyCamera({
+  groupIndex,
+  onGroupIndexChange,
+  groupCount,
+  viewportWidth,
+  viewportHeight,
+  enabled,
+}: UseSkyCameraOptions) {
+  const W = CANVAS_CONSTANTS.CONSTELLATION_WIDTH;
+
+  const [view, setView] = useState<CameraView>({ zoom: 1, pan: { x: 0, y: 0 } });
+  const [isDragging, setIsDragging] = useState(false);
+  const [dragDelta, setDragDelta] = useState(0);
+  const pointersRef = useRef(new Map<number, Point>());
+  const gestureRef = useRef<Gesture | null>(null);
+
+  // すべての星座グループが画面の幅に収まる拡大率
+  const overviewZoom = Math.min(1, viewportWidth / Math.max(1, groupCount * W));
+  const isFree = view.zoom !== 1 || view.pan.x !== 0 || view.pan.y !== 0;
+
+  const target = useMemo(
+    () => toCamera(view, groupIndex, viewportWidth, viewportHeight, dragDelta),
+    [view, groupIndex, viewportWidth, viewportHeight, dragDelta]
+  );
+
+  // ----- カメラ（イージング付き） -----
+  const [camera, setCamera] = useState<Camera>(target);
+  const cameraRef = useRef(camera);
+
+  useEffect(() => {
+    const from = cameraRef.current;
+    // 指で動かしている間はそのまま追従させる
+    const duration = isDragging ? 0 : EASE_DURATION;
+    let start: number | null = null;
+    let frame = 0;
+
+    const step = (timestamp: number) => {
+      if (start === null) start = timestamp;
+      const progress = duration === 0 ? 1 : Math.min((timestamp - start) / duration, 1);
+      const next = lerpCamera(from, target, easeOutCubic(progress));
+      cameraRef.current = next;
+      setCamera(next);
+      if (progress < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [target, isDragging]);
+
+  /**
+   * 基準の状態で anchor の位置にあった星空の点が、画面の to の位置に来るよう拡大率を変える
+   */
+  const zoomAround = (base: CameraView, anchor: Point, to: Point, nextZoom: number) => {
+    const zoom = Math.min(MAX_ZOOM, Math.max(overviewZoom, nextZoom));
+    const baseCamera = toCamera(base, groupIndex, viewportWidth, viewportHeight);
+    const worldX = (anchor.x - baseCamera.x) / baseCamera.scale;
+    const worldY = (anchor.y - baseCamera.y) / baseCamera.scale;
+    const centered = toCamera({ zoom, pan: { x: 0, y: 0 } }, groupIndex, viewportWidth, viewportHeight);
+    setView({ zoom, pan: { x: to.x - worldX * zoom - centered.x, y: to.y - worldY * zoom - centered.y } });
+  };
+
+  /**
+   * 星座グループに寄る（拡大率 1・ずらしなしに戻す）
+   */
+  const focusGroup = (index: number) => {
+    onGroupIndexChange(index);
+    setView({ zoom: 1, pan: { x: 0, y: 0 } });
+  };
+
+  /**
+   * すべての星座グループが見えるまで縮小する
+   */
+  const showOverview = () => {
+    const skyCenterX = (groupCount * W) / 2;
+    const groupCenterX = groupIndex * W + W / 2;
+    setView({ zoom: overviewZoom, pan: { x: (groupCenterX - skyCenterX) * overviewZoom, y: 0 } });
+  };
+
+  // ============================================
+  // 指・マウスの操作
+  // ============================================
+  const startGesture = (point: Point, state: Pick<Gesture, 'isFree' | 'moved'>) => {
+    gestureRef.current = { start: point, startPan: view.pan, ...state, pinch: null };
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!enabled) return;
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    // 指が UI の上に移っても、離すまで星空で受け取る
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (pointers.size === 1) {
+      startGesture({ x: e.clientX, y: e.clientY }, { isFree, moved: false });
+      setIsDragging(true);
+      setDragDelta(0);
+    } else if (pointers.size === 2 && gestureRef.current) {
+      const [a, b] = Array.from(pointers.values());
+      gestureRef.current.moved = true;
+      gestureRef.current.pinch = {
+        distance: Math.hypot(a.x - b.x, a.y - b.y),
+        midpoint: getMidpoint(a, b),
+        view,
+      };
+      setDragDelta(0);
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    const gesture = gestureRef.current;
+    if (!enabled || !gesture || !pointers.has(e.pointerId)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    // 2本指: つまんだ中心を保ったまま拡大縮小する
+    if (gesture.pinch && pointers.size >= 2) {
+      const [a, b] = Array.from(pointers.values());
+      const { distance, midpoint, view: base } = gesture.pinch;
+      const scale = Math.hypot(a.x - b.x, a.y - b.y) / Math.max(1, distance);
+      zoomAround(base, midpoint, getMidpoint(a, b), base.zoom * scale);
+      return;
+    }
+
+    const dx = e.clientX - gesture.start.x;
+    const dy = e.clientY - gesture.start.y;
+    if (Math.hypot(dx, dy) > TAP_THRESHOLD) gesture.moved = true;
+
+    if (gesture.isFree) {
+      setView((prev) => ({ ...prev, pan: { x: gesture.startPan.x + dx, y: gesture.startPan.y + dy } }));
+    } else {
+      setDragDelta(dx);
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    const gesture = gestureRef.current;
+    if (!pointers.delete(e.pointerId) || !gesture) return;
+
+    // つまんでいた指の片方を離したら、残った指でずらす操作として続ける
+    if (pointers.size > 0) {
+      const [rest] = Array.from(pointers.values());
+      startGesture(rest, { isFree: true, moved: true });
+      return;
+    }
+
+    gestureRef.current = null;
+    setIsDragging(false);
+    setDragDelta(0);
+
+    // 全体表示中のタップ: その星座グループに寄る
+    if (!gesture.moved && view.zoom < CANVAS_CONSTANTS.OVERVIEW_SCALE) {
+      const worldX = (e.clientX - target.x) / target.scale;
+      const index = Math.floor(worldX / W);
+      if (index >= 0 && index < groupCount) focusGroup(index);
+      return;
+    }
+
+    if (gesture.isFree) return;
+
+    if (dragDelta < -SWIPE_THRESHOLD && groupIndex < groupCount - 1) {
+      // 左スワイプ → 次の星座へ
+      onGroupIndexChange(groupIndex + 1);
+    } else if (dragDelta > SWIPE_THRESHOLD && groupIndex > 0) {
+      // 右スワイプ → 前の星座へ
+      onGroupIndexChange(groupIndex - 1);
+    }
+  };
+
+  const onWheel = (e: React.WheelEvent) => {
+    if (!enabled) return;
+    const point = { x: e.clientX, y: e.clientY };
+    zoomAround(view, point, point, view.zoom * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED));
+  };
+
+  return {
+    camera,
+    isDragging,
+    /** 全体表示（星座名を出し、タップで寄る）になるほど縮小しているか */
+    isOverview: camera.scale < CANVAS_CONSTANTS.OVERVIEW_SCALE,
+    /** 縮小して全体を見られるか（星座グループが画面に収まりきらないとき） */
+    canShowOverview: overviewZoom < 1,
+    focusGroup,
+    showOverview,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onPointerLeave: onPointerUp,
+      onWheel,
+    },
+  };
+}
+
+export default useSkyCamera;
@@ -0,0 +1,501 @@
+// ============================================
+// バックアップ（エクスポート / インポート）
+// IndexedDB の全データを1つのアーカイブファイルにまとめる
+// ============================================
+
+import { db, assignEntriesToConstellation, moveAllDataToTrash, isVaultLocked } from './db';
+import type { DiaryEntry, DiaryPhoto, Constellation, CustomReferenceConstellation, ConstellationPack } from '../types';
+import { UNASSIGNED_CONSTELLATION_ID } from '../types';
+import { toLocalDateString } from './date';
+import { PBKDF2_ITERATIONS, deriveKey, encryptBytes, decryptBytes, openEntry, openPhoto, sealEntry, sealPhoto } from './crypto';
+
+/** アーカイブの識別子 */
+export const BACKUP_FORMAT = 'seiza-nikki-backup';
+
+/** パスフレーズで暗号化したアーカイブの識別子 */
+export const ENCRYPTED_BACKUP_FORMAT = 'seiza-nikki-backup-encrypted';
+
+/**
+ * アーカイブのスキーマバージョン（形式を変えたら上げる）
+ * v2: ユーザーが作った正解星座と星座パックを追加
+ */
+export const BACKUP_SCHEMA_VERSION = 2;
+
+/**
+ * インポート方法
+ * - replace: 既存データをすべてゴミ箱に入れてから復元（ゴミ箱から元に戻せる）
+ * - merge: 既存データに追加（ID が衝突した場合は振り直す）
+ */
+export type BackupImportMode = 'replace' | 'merge';
+
+/**
+ * アーカイブのマニフェスト
+ */
+export interface BackupManifest {
+  /** アーカイブの識別子（BACKUP_FORMAT） */
+  format: string;
+  /** アーカイブのスキーマバージョン */
+  schemaVersion: number;
+  /** エクスポート時の Dexie スキーマバージョン */
+  dbVersion: number;
+  /** エクスポート日時（ISO 8601） */
+  exportedAt: string;
+  /** 日記エントリ数 */
+  entryCount: number;
+  /** 星座数 */
+  constellationCount: number;
+}
+
+/**
+ * アーカイブ内の日記エントリ（写真は Data URL、日時は文字列で保持）
+ */
+interface BackupDiaryEntry extends Omit<DiaryEntry, 'createdAt'> {
+  createdAt: string;
+  photo: string;
+}
+
+/**
+ * アーカイブ内の星座
+ */
+interface BackupConstellation extends Omit<Constellation, 'createdAt'> {
+  createdAt: string;
+}
+
+/**
+ * アーカイブ内のユーザーが作った正解星座（イラストは Data URL、日時は文字列で保持）
+ */
+interface BackupCustomConstellation extends Omit<CustomReferenceConstellation, 'svgBlob' | 'createdAt'> {
+  svg: string;
+  createdAt: string;
+}
+
+/**
+ * アーカイブ内の星座パック
+ */
+interface BackupConstellationPack extends Omit<ConstellationPack, 'importedAt'> {
+  importedAt: string;
+}
+
+/**
+ * バックアップアーカイブ全体
+ */
+export interface BackupArchive {
+  manifest: BackupManifest;
+  diaryEntries: BackupDiaryEntry[];
+  constellations: BackupConstellation[];
+  /** v2 から。判定に使った形がないと、復元した星座のイラストが出せないため一緒に保存する */
+  customConstellations?: BackupCustomConstellation[];
+  constellationPacks?: BackupConstellationPack[];
+}
+
+/**
+ * パスフレーズで暗号化したバックアップファイル
+ * 中身は BackupArchive の JSON を AES-GCM で暗号化したもの（バイナリは Base64）
+ */
+interface EncryptedBackupFile {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  schemaVersion: number;
+  salt: string;
+  iterations: number;
+  iv: string;
+  data: string;
+}
+
+/**
+ * インポート結果
+ */
+export interface BackupImportSummary {
+  /** 追加したエントリ数 */
+  importedEntries: number;
+  /** 追加した星座数 */
+  importedConstellations: number;
+  /** 重複としてスキップしたエントリ数 */
+  skippedEntries: number;
+  /** ID を振り直したエントリ数 */
+  remappedEntries: number;
+  /** 星がそろわない・すでに別の星座に入っているためスキップした星座数 */
+  skippedConstellations: number;
+}
+
+// ============================================
+// Blob <-> Data URL 変換
+// ============================================
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.addEventListener('load', () => resolve(reader.result as string));
+    reader.addEventListener('error', () => reject(reader.error));
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return await response.blob();
+}
+
+// ============================================
+// バイト列 <-> Base64 変換（暗号化バックアップ用）
+// ============================================
+
+function bytesToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  // 大きな写真で引数の上限を超えないよう分割して変換する
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ============================================
+// エクスポート
+// ============================================
+
+/**
+ * 全データをアーカイブオブジェクトとして作成する
+ * 金庫モードのメモと写真は復号した状態で書き出す（解錠中に呼ぶこと）
+ */
+export async function createBackupArchive(): Promise<BackupArchive> {
+  // ロック中は鍵がなく、読み戻せない暗号文のまま書き出してしまう
+  if (await isVaultLocked()) {
+    throw new Error('金庫がロックされています。解錠してから書き出してください');
+  }
+
+  const [rawEntries, rawPhotos, constellations, customConstellations, constellationPacks] = await Promise.all([
+    db.diaryEntries.toArray(),
+    db.photos.toArray(),
+    db.constellations.toArray(),
+    db.customConstellations.toArray(),
+    db.constellationPacks.toArray(),
+  ]);
+  const entries = await Promise.all(rawEntries.map((e) => openEntry(e)));
+  const photos = await Promise.all(rawPhotos.map((p) => openPhoto(p)));
+  const photoByEntryId = new Map(photos.map((p) => [p.entryId, p.photoBlob]));
+
+  const diaryEntries = await Promise.all(
+    entries.map(async ({ createdAt, ...rest }) => {
+      const photoBlob = photoByEntryId.get(rest.id!);
+      return {
+        ...rest,
+        createdAt: new Date(createdAt).toISOString(),
+        photo: photoBlob ? await blobToDataUrl(photoBlob) : '',
+      };
+    })
+  );
+
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      dbVersion: db.verno,
+      exportedAt: new Date().toISOString(),
+      entryCount: diaryEntries.length,
+      constellationCount: constellations.length,
+    },
+    diaryEntries,
+    constellations: constellations.map((c) => ({
+      ...c,
+      createdAt: new Date(c.createdAt).toISOString(),
+    })),
+    customConstellations: await Promise.all(
+      customConstellations.map(async ({ svgBlob, createdAt, ...rest }) => ({
+        ...rest,
+        svg: await blobToDataUrl(svgBlob),
+        createdAt: new Date(createdAt).toISOString(),
+      }))
+    ),
+    constellationPacks: constellationPacks.map((pack) => ({
+      ...pack,
+      importedAt: new Date(pack.importedAt).toISOString(),
+    })),
+  };
+}
+
+/**
+ * 全データをバックアップファイル（JSON）として書き出す
+ * passphrase を指定するとアーカイブ全体をそのパスフレーズで暗号化する
+ */
+export async function exportBackup(passphrase?: string): Promise<Blob> {
+  const archive = await createBackupArchive();
+  const json = JSON.stringify(archive);
+  if (!passphrase) {
+    return new Blob([json], { type: 'application/json' });
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iterations = PBKDF2_ITERATIONS;
+  const key = await deriveKey(passphrase, salt, iterations);
+  const { iv, data } = await encryptBytes(key, new TextEncoder().encode(json));
+  const file: EncryptedBackupFile = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    salt: bytesToBase64(salt),
+    iterations,
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(data),
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+}
+
+/**
+ * バックアップファイルをダウンロードさせる
+ */
+export async function downloadBackup(passphrase?: string): Promise<void> {
+  const blob = await exportBackup(passphrase);
+  const url = URL.createObjectURL(blob);
+  const stamp = toLocalDateString(new Date());
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `seiza-nikki-backup-${stamp}.json`;
+  link.click();
+
+  // ダウンロード開始後に解放
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// ============================================
+// インポート
+// ============================================
+
+/**
+ * アーカイブの形式を検証する
+ */
+function validateArchive(value: unknown): BackupArchive {
+  const archive = value as Partial<BackupArchive> | null;
+  const manifest = archive?.manifest;
+
+  if (!manifest || manifest.format !== BACKUP_FORMAT) {
+    throw new Error('星座日記のバックアップファイルではありません');
+  }
+  if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`未対応のバックアップ形式です (v${manifest.schemaVersion})`);
+  }
+  if (!Array.isArray(archive.diaryEntries) || !Array.isArray(archive.constellations)) {
+    throw new Error('バックアップファイルが壊れています');
+  }
+  if (
+    (archive.customConstellations !== undefined && !Array.isArray(archive.customConstellations)) ||
+    (archive.constellationPacks !== undefined && !Array.isArray(archive.constellationPacks))
+  ) {
+    throw new Error('バックアップファイルが壊れています');
+  }
+
+  return archive as BackupArchive;
+}
+
+/** 重複判定用のキー（同じ日付・同じ作成日時なら同一エントリとみなす） */
+const entryKey = (date: string, createdAt: Date | string) =>
+  `${date}|${new Date(createdAt).getTime()}`;
+
+/**
+ * 暗号化されたバックアップファイルを復号してアーカイブの JSON を取り出す
+ */
+async function decryptBackupFile(file: EncryptedBackupFile, passphrase: string | undefined): Promise<unknown> {
+  if (!passphrase) {
+    throw new Error('このバックアップはパスフレーズで暗号化されています');
+  }
+  const key = await deriveKey(passphrase, base64ToBytes(file.salt), file.iterations);
+  let json: string;
+  try {
+    const data = await decryptBytes(key, { iv: base64ToBytes(file.iv), data: base64ToBytes(file.data).buffer });
+    json = new TextDecoder().decode(data);
+  } catch {
+    throw new Error('パスフレーズが違います');
+  }
+  return JSON.parse(json);
+}
+
+/**
+ * バックアップファイルからデータを復元する
+ * 金庫モードのときは、取り込んだメモと写真を現在の鍵で暗号化して保存する
+ */
+export async function importBackup(
+  file: Blob,
+  mode: BackupImportMode,
+  passphrase?: string
+): Promise<BackupImportSummary> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('バックアップファイルを読み込めませんでした');
+  }
+  if ((parsed as { format?: unknown } | null)?.format === ENCRYPTED_BACKUP_FORMAT) {
+    parsed = await decryptBackupFile(parsed as EncryptedBackupFile, passphrase);
+  }
+  const archive = validateArchive(parsed);
+
+  // 写真の復元と暗号化はトランザクション外で先に済ませる
+  // （Dexie 以外の非同期処理を挟むとトランザクションが閉じてしまうため）
+  const restored = await Promise.all(
+    archive.diaryEntries.map(async ({ photo, createdAt, ...rest }) => ({
+      // 所属星座は取り込んだ星座の ID で付け直す
+      entry: await sealEntry({
+        ...rest,
+        constellationId: UNASSIGNED_CONSTELLATION_ID,
+        createdAt: new Date(createdAt),
+      } as DiaryEntry),
+      photo: photo ? await sealPhoto({ entryId: rest.id!, photoBlob: await dataUrlToBlob(photo) }) : null,
+    }))
+  );
+  const restoredEntries = restored.map((r) => r.entry);
+  const restoredPhotos: DiaryPhoto[] = restored
+    .filter((r) => r.photo !== null)
+    .map((r) => r.photo!);
+  const restoredConstellations: Constellation[] = archive.constellations.map((c) => ({
+    ...c,
+    createdAt: new Date(c.createdAt),
+  }));
+  const restoredCustomConstellations: CustomReferenceConstellation[] = await Promise.all(
+    (archive.customConstellations ?? []).map(async ({ svg, createdAt, ...rest }) => ({
+      ...rest,
+      svgBlob: await dataUrlToBlob(svg),
+      createdAt: new Date(createdAt),
+    }))
+  );
+  const restoredPacks: ConstellationPack[] = (archive.constellationPacks ?? []).map((pack) => ({
+    ...pack,
+    importedAt: new Date(pack.importedAt),
+  }));
+
+  const summary: BackupImportSummary = {
+    importedEntries: 0,
+    importedConstellations: 0,
+    skippedEntries: 0,
+    remappedEntries: 0,
+    skippedConstellations: 0,
+  };
+
+  const tables = [
+    db.diaryEntries,
+    db.photos,
+    db.constellations,
+    db.trash,
+    db.customConstellations,
+    db.constellationPacks,
+  ];
+  await db.transaction('rw', tables, async () => {
+    if (mode === 'replace') {
+      // 置き換える前のデータは、間違えて読み込んだときに戻せるようゴミ箱に入れておく
+      await moveAllDataToTrash('バックアップで置き換える前のデータ');
+      await db.diaryEntries.clear();
+      await db.photos.clear();
+      await db.constellations.clear();
+      await db.customConstellations.clear();
+      await db.constellationPacks.clear();
+      await db.diaryEntries.bulkPut(restoredEntries);
+      await db.photos.bulkPut(restoredPhotos);
+      await db.constellations.bulkPut(restoredConstellations);
+      await db.customConstellations.bulkPut(restoredCustomConstellations);
+      await db.constellationPacks.bulkPut(restoredPacks);
+      for (const c of restoredConstellations) {
+        await assignEntriesToConstellation(c.id!, c.entryIds);
+      }
+      summary.importedEntries = restoredEntries.length;
+      summary.importedConstellations = restoredConstellations.length;
+      return;
+    }
+
+    // ---- merge ----
+    // 判定に使う形は、同じ星座ID・パック ID のものが端末になければ追加する
+    const existingShapeIds = new Set(
+      (await db.customConstellations.toArray()).map((c) => c.constellationId)
+    );
+    for (const custom of restoredCustomConstellations) {
+      if (existingShapeIds.has(custom.constellationId)) continue;
+      const withoutId: CustomReferenceConstellation = { ...custom };
+      delete withoutId.id;
+      await db.customConstellations.add(withoutId);
+    }
+    const existingPackIds = new Set(await db.constellationPacks.toCollection().primaryKeys());
+    await db.constellationPacks.bulkAdd(restoredPacks.filter((pack) => !existingPackIds.has(pack.packId)));
+
+    const existingEntries = await db.diaryEntries.toArray();
+    const existingIds = new Set(existingEntries.map((e) => e.id));
+    const existingByKey = new Map(existingEntries.map((e) => [entryKey(e.date, e.createdAt), e.id!]));
+
+    // アーカイブ内の ID → 取り込み後の ID
+    const idMap = new Map<number, number>();
+    // 実際に取り込んだ（重複でない）アーカイブ内の ID
+    const importedOldIds = new Set<number>();
+
+    for (const entry of restoredEntries) {
+      const oldId = entry.id!;
+      const duplicateId = existingByKey.get(entryKey(entry.date, entry.createdAt));
+      if (duplicateId !== undefined) {
+        idMap.set(oldId, duplicateId);
+        summary.skippedEntries++;
+        continue;
+      }
+
+      if (existingIds.has(oldId)) {
+        // ID が衝突した場合は自動採番に任せる
+        const withoutId: DiaryEntry = { ...entry };
+        delete withoutId.id;
+        const newId = await db.diaryEntries.add(withoutId);
+        idMap.set(oldId, newId);
+        summary.remappedEntries++;
+      } else {
+        await db.diaryEntries.add(entry);
+        idMap.set(oldId, oldId);
+      }
+      existingIds.add(idMap.get(oldId)!);
+      importedOldIds.add(oldId);
+      summary.importedEntries++;
+    }
+
+    await db.photos.bulkPut(
+      restoredPhotos
+        .filter((p) => importedOldIds.has(p.entryId))
+        .map((p) => ({ ...p, entryId: idMap.get(p.entryId)! }))
+    );
+
+    const existingConstellations = await db.constellations.toArray();
+    const constellationKeys = new Set(
+      existingConstellations.map((c) => `${c.name}|${new Date(c.createdAt).getTime()}`)
+    );
+
+    for (const constellation of restoredConstellations) {
+      const key = `${constellation.name}|${constellation.createdAt.getTime()}`;
+      if (constellationKeys.has(key)) continue;
+
+      // 星がアーカイブに含まれていない・すでに別の星座に入っている星座は取り込まない
+      // （端末側で名前を変えた同じ星座が、星を奪ってしまわないように）
+      const entryIds = constellation.entryIds.map((id) => idMap.get(id));
+      if (entryIds.some((id) => id === undefined)) {
+        summary.skippedConstellations++;
+        continue;
+      }
+      const members = await db.diaryEntries.bulkGet(entryIds as number[]);
+      if (members.some((e) => !e || e.constellationId !== UNASSIGNED_CONSTELLATION_ID)) {
+        summary.skippedConstellations++;
+        continue;
+      }
+
+      const remapped: Constellation = {
+        ...constellation,
+        entryIds: entryIds as number[],
+      };
+      delete remapped.id;
+      // 別の端末での並び順は持ち込まず、既存の星座の後ろに作成順で並べる
+      delete remapped.sortOrder;
+      const newId = await db.constellations.add(remapped);
+      await assignEntriesToConstellation(newId, remapped.entryIds);
+      summary.importedConstellations++;
+    }
+  });
+
+  return summary;
+}
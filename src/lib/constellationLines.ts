@@ -0,0 +1,100 @@
+// ============================================
+// 星座線の生成と検証
+// ============================================
+
+import type { ConstellationLine, StarPosition } from '../types';
+import { CANVAS_CONSTANTS } from '../types';
+
+/**
+ * 星を置いた順（日付順）につなぐ線
+ */
+export function generateDateOrderLines(count: number): ConstellationLine[] {
+  const lines: ConstellationLine[] = [];
+  for (let i = 0; i < count - 1; i++) {
+    lines.push({
+      fromIndex: i,
+      toIndex: i + 1,
+    });
+  }
+  return lines;
+}
+
+/**
+ * 線の合計の長さが最短になるようにつなぐ線（最小全域木、Prim 法）
+ * 距離は実際の見た目に合わせて星描画領域の px で測る
+ */
+export function generateMinimumSpanningTree(points: StarPosition[]): ConstellationLine[] {
+  if (points.length < 2) return [];
+  const px = points.map((p) => ({
+    x: p.x * CANVAS_CONSTANTS.STAR_AREA_WIDTH,
+    y: p.y * CANVAS_CONSTANTS.STAR_AREA_HEIGHT,
+  }));
+  const distance = (a: number, b: number) => Math.hypot(px[a].x - px[b].x, px[a].y - px[b].y);
+
+  const inTree = new Set<number>([0]);
+  // 木に入っていない各点について、木までの最短距離とそのときの相手
+  const nearest = px.map((_, i) => ({ from: 0, dist: i === 0 ? 0 : distance(0, i) }));
+  const lines: ConstellationLine[] = [];
+
+  while (inTree.size < px.length) {
+    let next = -1;
+    for (let i = 0; i < px.length; i++) {
+      if (!inTree.has(i) && (next < 0 || nearest[i].dist < nearest[next].dist)) next = i;
+    }
+    inTree.add(next);
+    lines.push({ fromIndex: nearest[next].from, toIndex: next });
+
+    for (let i = 0; i < px.length; i++) {
+      if (inTree.has(i)) continue;
+      const d = distance(next, i);
+      if (d < nearest[i].dist) nearest[i] = { from: next, dist: d };
+    }
+  }
+  return lines;
+}
+
+/**
+ * 2つの星を結ぶ線があるかどうか（向きは問わない）
+ */
+export function hasLine(lines: ConstellationLine[], a: number, b: number): boolean {
+  return lines.some(
+    (line) => (line.fromIndex === a && line.toIndex === b) || (line.fromIndex === b && line.toIndex === a)
+  );
+}
+
+/**
+ * 2つの星を結ぶ線を、なければ足し、あれば消す
+ */
+export function toggleLine(lines: ConstellationLine[], a: number, b: number): ConstellationLine[] {
+  if (a === b) return lines;
+  if (hasLine(lines, a, b)) {
+    return lines.filter(
+      (line) => !((line.fromIndex === a && line.toIndex === b) || (line.fromIndex === b && line.toIndex === a))
+    );
+  }
+  return [...lines, { fromIndex: a, toIndex: b }];
+}
+
+/**
+ * すべての星が線でひとつながりになっているかどうか
+ */
+export function isConnected(count: number, lines: ConstellationLine[]): boolean {
+  if (count <= 1) return true;
+  const neighbors = Array.from({ length: count }, () => [] as number[]);
+  for (const { fromIndex, toIndex } of lines) {
+    neighbors[fromIndex]?.push(toIndex);
+    neighbors[toIndex]?.push(fromIndex);
+  }
+
+  const visited = new Set<number>([0]);
+  const stack = [0];
+  while (stack.length > 0) {
+    for (const next of neighbors[stack.pop()!]) {
+      if (!visited.has(next)) {
+        visited.add(next);
+        stack.push(next);
+      }
+    }
+  }
+  return visited.size === count;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { findBestMatch, solveAssignment, type Point2D } from './constellationMatcher';
+import { referenceConstellations } from '../data/constellations';
+
+/**
+ * 割り当てのコストの合計
+ */
+function totalCost(cost: number[][], assignment: number[]): number {
+    return assignment.reduce((sum, col, row) => sum + (col >= 0 ? cost[row][col] : 0), 0);
+}
+
+/**
+ * 点群を重心まわりに回転・拡大し、必要なら左右反転する
+ */
+function transformPoints(points: Point2D[], angle: number, scale: number, reflect: boolean): Point2D[] {
+    const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return points.map(p => {
+        const x = (reflect ? cx - p.x : p.x - cx) * scale;
+        const y = (p.y - cy) * scale;
+        return { x: 0.5 + x * cos - y * sin, y: 0.5 + x * sin + y * cos };
+    });
+}
+
+describe('solveAssignment', () => {
+    it('空の行列では空の割り当てを返す', () => {
+        expect(solveAssignment([])).toEqual([]);
+    });
+
+    it('貪欲法では最適にならない行列で、合計が最小の割り当てを返す', () => {
+        // 行 0 を一番安い列 0 に入れると、行 1 が高い列 1 に回される
+        const cost = [
+            [1, 2],
+            [2, 100],
+        ];
+        expect(solveAssignment(cost)).toEqual([1, 0]);
+    });
+
+    it('3x3 の行列で既知の最適解を返す', () => {
+        const cost = [
+            [4, 1, 3],
+            [2, 0, 5],
+            [3, 2, 2],
+        ];
+        const assignment = solveAssignment(cost);
+        expect(assignment).toEqual([1, 0, 2]);
+        expect(totalCost(cost, assignment)).toBe(5);
+    });
+
+    it('列の方が多いときは、すべての行を別々の列に割り当てる', () => {
+        const cost = [
+            [9, 1, 9, 9],
+            [9, 9, 9, 2],
+        ];
+        expect(solveAssignment(cost)).toEqual([1, 3]);
+    });
+
+    it('行の方が多いときは、割り当てられない行を -1 にする', () => {
+        const cost = [
+            [5, 9],
+            [1, 9],
+            [9, 1],
+        ];
+        expect(solveAssignment(cost)).toEqual([-1, 0, 1]);
+    });
+});
+
+describe('findBestMatch', () => {
+    for (const reference of referenceConstellations) {
+        describe(reference.name, () => {
+            it('そのままの形なら自分自身と一致する', () => {
+                const result = findBestMatch(reference.points, 0);
+                expect(result?.constellationId).toBe(reference.id);
+                expect(result?.similarity).toBeGreaterThan(0.99);
+            });
+
+            it('回転・縮小しても自分自身と一致する', () => {
+                const result = findBestMatch(transformPoints(reference.points, Math.PI / 3, 0.6, false), 0);
+                expect(result?.constellationId).toBe(reference.id);
+                expect(result?.similarity).toBeGreaterThan(0.99);
+            });
+
+            it('左右反転しても自分自身と一致する', () => {
+                // 反転のペナルティがあると、反転した形より別の星座の方が高くなることがあるので外す
+                const mirrored = transformPoints(reference.points, -Math.PI / 5, 1.2, true);
+                const result = findBestMatch(mirrored, 0, { reflectionPenalty: 1 });
+                expect(result?.constellationId).toBe(reference.id);
+                expect(result?.similarity).toBeGreaterThan(0.99);
+            });
+
+            it('星の順番を入れ替えても、同じ点どうしを対応させる', () => {
+                const order = reference.points.map((_, i) => i).reverse();
+                const result = findBestMatch(order.map(i => reference.points[i]), 0);
+                expect(result?.constellationId).toBe(reference.id);
+                expect(result?.correspondence).toEqual(order);
+                for (const error of result?.pointErrors ?? []) {
+                    expect(error).toBeCloseTo(0, 5);
+                }
+            });
+        });
+    }
+});
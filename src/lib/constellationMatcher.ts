@@ -3,7 +3,9 @@
 // ユーザーの点群と正解データを比較して最も近い星座を返す
 // ============================================
 
-import { type Point2D, referenceConstellations, type ReferenceConstellation } from '../data/constellations';
+import { type Point2D, getAllReferenceConstellations, getConstellationById, type ReferenceConstellation } from '../data/constellations';
+import type { ConstellationLine, OverlayTransform } from '../types';
+import { CANVAS_CONSTANTS } from '../types';
 
 /**
  * マッチング結果
@@ -17,6 +19,92 @@ export interface MatchResult {
     similarity: number;
     /** SVGファイルパス */
     svgPath: string;
+    /**
+     * ユーザーの各点に対応する参照点のインデックス（対応なしは -1）
+     * 保存済みの判定結果から復元した場合はない
+     */
+    correspondence?: number[];
+    /** ユーザーの各点と対応する参照点との距離（正規化後の座標系、対応なしは null） */
+    pointErrors?: (number | null)[];
+    /** ユーザーの点群を参照点群に重ねるために使った変換 */
+    transform?: MatchTransform;
+    /** 星座線の一致度 (0-1、線を渡したときのみ) */
+    topologyScore?: number;
+    /** ユーザーの星が足りず、対応しなかった参照点のインデックス */
+    missingReferencePoints?: number[];
+    /** 重ね合わせたあとの点群（説明表示用、正規化後の座標系） */
+    alignment?: MatchAlignment;
+    /** 参照星座のイラストをユーザーの星に重ねる変換（星描画領域の px 単位） */
+    overlayTransform?: OverlayTransform;
+    /** レア度（ランダムな点群の何割より似ているか、0-1。較正したときのみ） */
+    rarity?: number;
+}
+
+/**
+ * 重ね合わせたあとの点群
+ * userPoints[i] は correspondence[i] 番目の referencePoints に対応する
+ */
+export interface MatchAlignment {
+    userPoints: Point2D[];
+    referencePoints: Point2D[];
+}
+
+/**
+ * ユーザーの点群（正規化後）を参照点群に合わせる変換
+ * reflected なら先に左右反転し、そのあと rotation だけ回転する
+ */
+export interface MatchTransform {
+    /** 回転角（ラジアン、画面座標で時計回りが正） */
+    rotation: number;
+    /** 左右反転したかどうか */
+    reflected: boolean;
+}
+
+/**
+ * 判定のオプション
+ */
+export interface MatchOptions {
+    /** 回転を許すか（デフォルト true） */
+    allowRotation?: boolean;
+    /** 左右反転を許すか（デフォルト true） */
+    allowReflection?: boolean;
+    /** 反転して一致した場合に類似度に掛ける係数（デフォルト 0.9） */
+    reflectionPenalty?: number;
+    /** ユーザーの星座線（渡すと線のつながり方も比較する） */
+    lines?: ConstellationLine[];
+    /** 星座線の一致度を類似度に混ぜる割合 (0-1、デフォルト 0.3) */
+    topologyWeight?: number;
+}
+
+const DEFAULT_MATCH_OPTIONS: Required<MatchOptions> = {
+    allowRotation: true,
+    allowReflection: true,
+    reflectionPenalty: 0.9,
+    lines: [],
+    topologyWeight: 0.3,
+};
+
+/** 回転の局所解を避けるために試す初期角度の数 */
+const INITIAL_ROTATION_STEPS = 8;
+
+/** 対応付けと回転を交互に求める最大回数 */
+const MAX_ALIGNMENT_ITERATIONS = 10;
+
+/** 形を比べるのに最低限必要な、対応の取れた点の数 */
+export const MIN_MATCHED_POINTS = 3;
+
+/**
+ * 1つの星座との比較結果（内部用）
+ */
+interface SimilarityDetail {
+    similarity: number;
+    correspondence: number[];
+    pointErrors: (number | null)[];
+    transform: MatchTransform;
+    topologyScore?: number;
+    missingReferencePoints: number[];
+    alignment?: MatchAlignment;
+    overlayTransform?: OverlayTransform;
 }
 
 // ============================================
@@ -76,6 +164,23 @@ function normalizePoints(points: Point2D[]): Point2D[] {
     }));
 }
 
+/**
+ * 一部の点だけを基準に正規化する（点数が違う星座どうしの部分一致用）
+ * 重心とスケールは indices の点から求め、変換は全点にかける
+ */
+function normalizeBySubset(points: Point2D[], indices: number[]): Point2D[] {
+    const centroid = getCentroid(indices.map(i => points[i]));
+    const scale = getScale(indices.map(i => ({
+        x: points[i].x - centroid.x,
+        y: points[i].y - centroid.y,
+    })));
+
+    return points.map(p => ({
+        x: (p.x - centroid.x) / scale,
+        y: (p.y - centroid.y) / scale,
+    }));
+}
+
 // ============================================
 // 点群のマッチング（最適な対応を見つける）
 // ============================================
@@ -90,36 +195,191 @@ function distanceSquared(a: Point2D, b: Point2D): number {
 }
 
 /**
- * 貪欲法で点群同士の最適な対応を見つける
- * 各ユーザー点に最も近い参照点を割り当て
+ * 割り当て問題をハンガリアン法で解く（コストの合計が最小になる対応）
+ * 行数と列数が違う場合は少ない方がすべて割り当てられる
+ * @param cost cost[i][j] = 行 i を列 j に割り当てるコスト
+ * @returns 各行に割り当てた列のインデックス（割り当てなしは -1）
+ */
+export function solveAssignment(cost: number[][]): number[] {
+    const n = cost.length;
+    if (n === 0) return [];
+    const m = cost[0].length;
+
+    // 行の方が多い場合は転置して解き、結果を行側に戻す
+    if (n > m) {
+        const transposed = cost[0].map((_, j) => cost.map(row => row[j]));
+        const colToRow = solveAssignment(transposed);
+        const rowToCol: number[] = new Array(n).fill(-1);
+        colToRow.forEach((row, col) => {
+            if (row >= 0) rowToCol[row] = col;
+        });
+        return rowToCol;
+    }
+
+    // ポテンシャル法による O(n^2 m) の実装（添字は1始まり、0は番兵）
+    const u: number[] = new Array(n + 1).fill(0);
+    const v: number[] = new Array(m + 1).fill(0);
+    const assignedRow: number[] = new Array(m + 1).fill(0); // 列 j に割り当てた行
+    const way: number[] = new Array(m + 1).fill(0);
+
+    for (let i = 1; i <= n; i++) {
+        assignedRow[0] = i;
+        let j0 = 0;
+        const minv: number[] = new Array(m + 1).fill(Infinity);
+        const used: boolean[] = new Array(m + 1).fill(false);
+
+        // 行 i を割り当てられる増加路を探す
+        do {
+            used[j0] = true;
+            const i0 = assignedRow[j0];
+            let delta = Infinity;
+            let j1 = 0;
+
+            for (let j = 1; j <= m; j++) {
+                if (used[j]) continue;
+                const reduced = cost[i0 - 1][j - 1] - u[i0] - v[j];
+                if (reduced < minv[j]) {
+                    minv[j] = reduced;
+                    way[j] = j0;
+                }
+                if (minv[j] < delta) {
+                    delta = minv[j];
+                    j1 = j;
+                }
+            }
+
+            for (let j = 0; j <= m; j++) {
+                if (used[j]) {
+                    u[assignedRow[j]] += delta;
+                    v[j] -= delta;
+                } else {
+                    minv[j] -= delta;
+                }
+            }
+            j0 = j1;
+        } while (assignedRow[j0] !== 0);
+
+        // 増加路に沿って割り当てを更新
+        do {
+            const j1 = way[j0];
+            assignedRow[j0] = assignedRow[j1];
+            j0 = j1;
+        } while (j0 !== 0);
+    }
+
+    const result: number[] = new Array(n).fill(-1);
+    for (let j = 1; j <= m; j++) {
+        if (assignedRow[j] !== 0) result[assignedRow[j] - 1] = j - 1;
+    }
+    return result;
+}
+
+/**
+ * 点群同士の最適な対応を見つける
+ * 距離の二乗の合計が最小になる組み合わせを選ぶので、入力順に左右されない
  */
 function findBestCorrespondence(userPoints: Point2D[], refPoints: Point2D[]): number[] {
-    const n = userPoints.length;
-    const correspondence: number[] = new Array(n).fill(-1);
-    const usedRefIndices = new Set<number>();
-
-    // 各ユーザー点について、最も近い未使用の参照点を見つける
-    for (let i = 0; i < n; i++) {
-        let bestRefIdx = -1;
-        let bestDist = Infinity;
-
-        for (let j = 0; j < refPoints.length; j++) {
-            if (usedRefIndices.has(j)) continue;
-
-            const dist = distanceSquared(userPoints[i], refPoints[j]);
-            if (dist < bestDist) {
-                bestDist = dist;
-                bestRefIdx = j;
+    const cost = userPoints.map(u => refPoints.map(r => distanceSquared(u, r)));
+    return solveAssignment(cost);
+}
+
+// ============================================
+// 回転・反転の推定（Procrustes 解析）
+// ============================================
+
+/**
+ * 点群を原点まわりに回転
+ */
+function rotatePoints(points: Point2D[], angle: number): Point2D[] {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return points.map(p => ({
+        x: p.x * cos - p.y * sin,
+        y: p.x * sin + p.y * cos,
+    }));
+}
+
+/**
+ * 点群を左右反転
+ */
+function reflectPoints(points: Point2D[]): Point2D[] {
+    return points.map(p => ({ x: -p.x, y: p.y }));
+}
+
+/**
+ * 対応が決まっているときに、二乗誤差が最小になる回転角を求める
+ * （2次元の直交 Procrustes 問題の閉じた解）
+ */
+function findOptimalRotation(
+    userPoints: Point2D[],
+    refPoints: Point2D[],
+    correspondence: number[]
+): number {
+    let cross = 0;
+    let dot = 0;
+    for (let i = 0; i < userPoints.length; i++) {
+        const refIdx = correspondence[i];
+        if (refIdx < 0) continue;
+        const u = userPoints[i];
+        const r = refPoints[refIdx];
+        cross += u.x * r.y - u.y * r.x;
+        dot += u.x * r.x + u.y * r.y;
+    }
+    return Math.atan2(cross, dot);
+}
+
+/**
+ * 対応付けと回転を交互に最適化して、点群を参照点群に重ねる
+ * （初期角度を変えて何度か試し、最も誤差の小さいものを返す）
+ *
+ * 点数が違う場合は、対応の取れた点だけで正規化し直しながら繰り返す。
+ * 余った点まで含めて正規化すると、重心やスケールがずれて同じ形でも一致しないため
+ */
+function alignPoints(
+    userPoints: Point2D[],
+    refPoints: Point2D[],
+    allowRotation: boolean
+): { rotation: number; correspondence: number[]; aligned: Point2D[]; refFrame: Point2D[]; mse: number } {
+    const initialAngles = allowRotation
+        ? Array.from({ length: INITIAL_ROTATION_STEPS }, (_, k) => (2 * Math.PI * k) / INITIAL_ROTATION_STEPS)
+        : [0];
+    const isPartial = userPoints.length !== refPoints.length;
+
+    let best = { rotation: 0, correspondence: [] as number[], aligned: userPoints, refFrame: refPoints, mse: Infinity };
+
+    for (const initialAngle of initialAngles) {
+        let rotation = initialAngle;
+        let userFrame = userPoints;
+        let refFrame = refPoints;
+        let aligned = rotatePoints(userFrame, rotation);
+        let correspondence = findBestCorrespondence(aligned, refFrame);
+
+        if (allowRotation || isPartial) {
+            for (let iter = 0; iter < MAX_ALIGNMENT_ITERATIONS; iter++) {
+                if (isPartial) {
+                    const matchedUser = correspondence.flatMap((refIdx, i) => (refIdx >= 0 ? [i] : []));
+                    const matchedRef = matchedUser.map(i => correspondence[i]);
+                    userFrame = normalizeBySubset(userPoints, matchedUser);
+                    refFrame = normalizeBySubset(refPoints, matchedRef);
+                }
+                if (allowRotation) {
+                    rotation = findOptimalRotation(userFrame, refFrame, correspondence);
+                }
+                aligned = rotatePoints(userFrame, rotation);
+                const next = findBestCorrespondence(aligned, refFrame);
+                const converged = next.every((refIdx, i) => refIdx === correspondence[i]);
+                correspondence = next;
+                if (converged) break;
             }
         }
 
-        if (bestRefIdx !== -1) {
-            correspondence[i] = bestRefIdx;
-            usedRefIndices.add(bestRefIdx);
+        const mse = calculateMSE(aligned, refFrame, correspondence);
+        if (mse < best.mse) {
+            best = { rotation, correspondence, aligned, refFrame, mse };
         }
     }
 
-    return correspondence;
+    return best;
 }
 
 /**
@@ -144,35 +404,219 @@ function calculateMSE(
     return count > 0 ? totalError / count : Infinity;
 }
 
+// ============================================
+// イラストの重ね合わせ
+// ============================================
+
+/**
+ * 参照点をユーザーの星に重ねる相似変換（拡大縮小・回転・平行移動、必要なら反転）を求める
+ * 点は 0-1 座標なので、縦横の比率が実際の表示と同じになるよう星描画領域の px に直してから解く
+ */
+function estimateOverlayTransform(
+    userPoints: Point2D[],
+    refPoints: Point2D[],
+    correspondence: number[],
+    reflected: boolean
+): OverlayTransform | undefined {
+    const width = CANVAS_CONSTANTS.STAR_AREA_WIDTH;
+    const height = CANVAS_CONSTANTS.STAR_AREA_HEIGHT;
+    const flip = reflected ? -1 : 1;
+
+    const pairs = correspondence.flatMap((refIdx, i) => (refIdx >= 0
+        ? [{
+            from: { x: refPoints[refIdx].x * width * flip, y: refPoints[refIdx].y * height },
+            to: { x: userPoints[i].x * width, y: userPoints[i].y * height },
+        }]
+        : []));
+    if (pairs.length < 2) return undefined;
+
+    const fromCentroid = getCentroid(pairs.map(p => p.from));
+    const toCentroid = getCentroid(pairs.map(p => p.to));
+
+    let cross = 0;
+    let dot = 0;
+    let fromNorm = 0;
+    for (const { from, to } of pairs) {
+        const fx = from.x - fromCentroid.x;
+        const fy = from.y - fromCentroid.y;
+        const tx = to.x - toCentroid.x;
+        const ty = to.y - toCentroid.y;
+        cross += fx * ty - fy * tx;
+        dot += fx * tx + fy * ty;
+        fromNorm += fx * fx + fy * fy;
+    }
+    if (fromNorm === 0) return undefined;
+
+    const rotation = Math.atan2(cross, dot);
+    const scale = Math.hypot(cross, dot) / fromNorm;
+    const cos = Math.cos(rotation) * scale;
+    const sin = Math.sin(rotation) * scale;
+
+    // 反転は x 座標の符号で表しているので、行列の1列目に掛ける
+    return {
+        a: cos * flip,
+        b: sin * flip,
+        c: -sin,
+        d: cos,
+        e: toCentroid.x - (cos * fromCentroid.x - sin * fromCentroid.y),
+        f: toCentroid.y - (sin * fromCentroid.x + cos * fromCentroid.y),
+    };
+}
+
+// ============================================
+// 星座線の比較
+// ============================================
+
+/**
+ * 無向の辺を比較用のキーにする
+ */
+function edgeKey(a: number, b: number): string {
+    return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+/**
+ * ユーザーの星座線と参照星座の線がどれだけ一致するか (0-1)
+ * ユーザーの線を点の対応で参照側のインデックスに置き換え、辺集合の Jaccard 係数を取る
+ */
+function calculateTopologyScore(
+    lines: ConstellationLine[],
+    refEdges: [number, number][],
+    correspondence: number[]
+): number {
+    // 対応する星がない参照点の線は、部分一致では比べようがないので除く
+    const matchedRef = new Set(correspondence.filter(refIdx => refIdx >= 0));
+    const refKeys = new Set(
+        refEdges
+            .filter(([a, b]) => matchedRef.has(a) && matchedRef.has(b))
+            .map(([a, b]) => edgeKey(a, b))
+    );
+    const userKeys = new Set<string>();
+    let unmatched = 0;
+
+    for (const line of lines) {
+        const from = correspondence[line.fromIndex] ?? -1;
+        const to = correspondence[line.toIndex] ?? -1;
+        if (from < 0 || to < 0 || from === to) {
+            // 対応する参照点がない線は、一致しない線として数える
+            unmatched++;
+            continue;
+        }
+        userKeys.add(edgeKey(from, to));
+    }
+
+    let shared = 0;
+    for (const key of userKeys) {
+        if (refKeys.has(key)) shared++;
+    }
+    const union = refKeys.size + userKeys.size + unmatched - shared;
+    return union > 0 ? shared / union : 0;
+}
+
 // ============================================
 // 類似度計算
 // ============================================
 
 /**
  * 2つの点群間の類似度を計算 (0-1)
- * 両方の点群を正規化してから比較
+ * 両方の点群を正規化し、必要なら回転・反転で重ねてから比較
  */
-function calculateSimilarity(userPoints: Point2D[], refConstellation: ReferenceConstellation): number {
-    // 点数が不一致の場合は類似度を下げる（完全不一致ではない）
-    const pointCountDiff = Math.abs(userPoints.length - refConstellation.points.length);
-    const pointCountPenalty = Math.max(0, 1 - pointCountDiff * 0.1);
+function calculateSimilarity(
+    userPoints: Point2D[],
+    refConstellation: ReferenceConstellation,
+    options: Required<MatchOptions>
+): SimilarityDetail {
+    const refCount = refConstellation.points.length;
+    const matchedCount = Math.min(userPoints.length, refCount);
+    if (matchedCount < MIN_MATCHED_POINTS) {
+        return {
+            similarity: 0,
+            correspondence: userPoints.map(() => -1),
+            pointErrors: userPoints.map(() => null),
+            transform: { rotation: 0, reflected: false },
+            missingReferencePoints: refConstellation.points.map((_, i) => i),
+        };
+    }
+
+    // 点数が不一致の場合は、対応の取れた点の割合に応じて類似度を下げる（完全不一致ではない）
+    const pointCountPenalty = Math.sqrt(matchedCount / Math.max(userPoints.length, refCount));
 
     // 正規化
     const normalizedUser = normalizePoints(userPoints);
     const normalizedRef = normalizePoints(refConstellation.points);
 
-    // 最適な対応を見つける
-    const correspondence = findBestCorrespondence(normalizedUser, normalizedRef);
+    let best: SimilarityDetail | null = null;
+    const reflections = options.allowReflection ? [false, true] : [false];
+
+    for (const reflected of reflections) {
+        const source = reflected ? reflectPoints(normalizedUser) : normalizedUser;
+
+        // 最適な対応と回転を見つけ、平均二乗誤差を計算
+        const { rotation, correspondence, aligned, refFrame, mse } = alignPoints(source, normalizedRef, options.allowRotation);
+
+        // MSEを類似度に変換（指数関数で0-1の範囲に）
+        // MSEが0なら類似度1、MSEが大きいほど類似度は0に近づく
+        const pointSimilarity = Math.exp(-mse * 2);
+
+        // 星座線が渡されていれば、線のつながり方の一致度を混ぜる
+        const useTopology = options.lines.length > 0 && refConstellation.edges.length > 0;
+        const topologyScore = useTopology
+            ? calculateTopologyScore(options.lines, refConstellation.edges, correspondence)
+            : undefined;
+        const rawSimilarity = topologyScore !== undefined
+            ? pointSimilarity * (1 - options.topologyWeight) + topologyScore * options.topologyWeight
+            : pointSimilarity;
 
-    // 平均二乗誤差を計算
-    const mse = calculateMSE(normalizedUser, normalizedRef, correspondence);
+        // 各点のずれ（対応する参照点までの距離）
+        const pointErrors = aligned.map((p, i) => {
+            const refIdx = correspondence[i];
+            return refIdx >= 0 ? Math.sqrt(distanceSquared(p, refFrame[refIdx])) : null;
+        });
 
-    // MSEを類似度に変換（指数関数で0-1の範囲に）
-    // MSEが0なら類似度1、MSEが大きいほど類似度は0に近づく
-    const rawSimilarity = Math.exp(-mse * 2);
+        // 点数ペナルティ・反転ペナルティを適用
+        const similarity = rawSimilarity * pointCountPenalty * (reflected ? options.reflectionPenalty : 1);
 
-    // 点数ペナルティを適用
-    return rawSimilarity * pointCountPenalty;
+        if (!best || similarity > best.similarity) {
+            best = {
+                similarity,
+                correspondence,
+                pointErrors,
+                transform: { rotation, reflected },
+                topologyScore,
+                missingReferencePoints: refConstellation.points
+                    .map((_, i) => i)
+                    .filter(i => !correspondence.includes(i)),
+                alignment: { userPoints: aligned, referencePoints: refFrame },
+            };
+        }
+    }
+
+    // イラストの重ね合わせは、正規化前の座標で一番よかった対応から求める
+    best!.overlayTransform = estimateOverlayTransform(
+        userPoints,
+        refConstellation.points,
+        best!.correspondence,
+        best!.transform.reflected
+    );
+    return best!;
+}
+
+/**
+ * 比較結果を MatchResult にまとめる
+ */
+function toMatchResult(refConstellation: ReferenceConstellation, detail: SimilarityDetail): MatchResult {
+    return {
+        constellationId: refConstellation.id,
+        constellationName: refConstellation.name,
+        similarity: detail.similarity,
+        svgPath: refConstellation.svgPath,
+        correspondence: detail.correspondence,
+        pointErrors: detail.pointErrors,
+        transform: detail.transform,
+        topologyScore: detail.topologyScore,
+        missingReferencePoints: detail.missingReferencePoints,
+        alignment: detail.alignment,
+        overlayTransform: detail.overlayTransform,
+    };
 }
 
 // ============================================
@@ -183,12 +627,15 @@ function calculateSimilarity(userPoints: Point2D[], refConstellation: ReferenceC
  * ユーザーの点群に最も類似する星座を見つける
  * @param userPoints ユーザーが描いた点群（StarPosition形式、0-1正規化済み）
  * @param threshold 最低類似度閾値（これ未満ならnullを返す）デフォルト0.3
+ * @param options 回転・反転を許すかどうかなど
  * @returns マッチング結果、または閾値未満ならnull
  */
 export function findBestMatch(
     userPoints: Point2D[],
-    threshold: number = 0.3
+    threshold: number = 0.3,
+    options: MatchOptions = {}
 ): MatchResult | null {
+    const resolvedOptions = { ...DEFAULT_MATCH_OPTIONS, ...options };
     if (userPoints.length === 0) {
         return null;
     }
@@ -196,17 +643,12 @@ export function findBestMatch(
     let bestMatch: MatchResult | null = null;
     let bestSimilarity = -1;
 
-    for (const refConstellation of referenceConstellations) {
-        const similarity = calculateSimilarity(userPoints, refConstellation);
+    for (const refConstellation of getAllReferenceConstellations()) {
+        const detail = calculateSimilarity(userPoints, refConstellation, resolvedOptions);
 
-        if (similarity > bestSimilarity) {
-            bestSimilarity = similarity;
-            bestMatch = {
-                constellationId: refConstellation.id,
-                constellationName: refConstellation.name,
-                similarity,
-                svgPath: refConstellation.svgPath,
-            };
+        if (detail.similarity > bestSimilarity) {
+            bestSimilarity = detail.similarity;
+            bestMatch = toMatchResult(refConstellation, detail);
         }
     }
 
@@ -221,20 +663,45 @@ export function findBestMatch(
 /**
  * 全ての星座との類似度を計算（デバッグ・UI表示用）
  */
-export function calculateAllSimilarities(userPoints: Point2D[]): MatchResult[] {
+export function calculateAllSimilarities(userPoints: Point2D[], options: MatchOptions = {}): MatchResult[] {
     if (userPoints.length === 0) {
         return [];
     }
 
-    return referenceConstellations.map(refConstellation => {
-        const similarity = calculateSimilarity(userPoints, refConstellation);
-        return {
-            constellationId: refConstellation.id,
-            constellationName: refConstellation.name,
-            similarity,
-            svgPath: refConstellation.svgPath,
-        };
-    }).sort((a, b) => b.similarity - a.similarity);
+    const resolvedOptions = { ...DEFAULT_MATCH_OPTIONS, ...options };
+    return getAllReferenceConstellations()
+        .map(refConstellation => toMatchResult(refConstellation, calculateSimilarity(userPoints, refConstellation, resolvedOptions)))
+        .sort((a, b) => b.similarity - a.similarity);
+}
+
+// ============================================
+// 表示用
+// ============================================
+
+/**
+ * 参照星座のイラストをユーザーの星に重ねるための CSS transform
+ * （transform-origin は枠の左上にすること）
+ */
+export function getOverlayTransformCss(transform: OverlayTransform | undefined): string | undefined {
+    if (!transform) return undefined;
+    const { a, b, c, d, e, f } = transform;
+    return `matrix(${a}, ${b}, ${c}, ${d}, ${e}, ${f})`;
+}
+
+/**
+ * 指定した正解星座とだけ比べる（保存済みの星座の重ね合わせを求め直すときなど）
+ */
+export function matchAgainst(
+    userPoints: Point2D[],
+    constellationId: string,
+    options: MatchOptions = {}
+): MatchResult | null {
+    const refConstellation = getConstellationById(constellationId);
+    if (!refConstellation || userPoints.length === 0) return null;
+    return toMatchResult(
+        refConstellation,
+        calculateSimilarity(userPoints, refConstellation, { ...DEFAULT_MATCH_OPTIONS, ...options })
+    );
 }
 
 // Re-export types for convenience
@@ -0,0 +1,153 @@
+// ============================================
+// 星座パック
+// テーマごとの正解星座（点・星座線・SVG）を1つの JSON にまとめたもの。
+// ビルドし直さなくても、ファイルを読み込むだけで判定できる形を増やせる
+// ============================================
+
+import type { ConstellationPack, PackConstellation } from '../types';
+import { saveConstellationPack } from './db';
+
+/** パックファイルの識別子 */
+export const PACK_FORMAT = 'seiza-nikki-constellation-pack';
+
+/** パックファイルの形式バージョン */
+export const PACK_FORMAT_VERSION = 1;
+
+/** 1つの星座に必要な最低限の点の数 */
+const MIN_POINTS = 3;
+
+/** ID に使える文字（判定結果の ID にそのまま使うため） */
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * パックファイル（JSON）の中身
+ */
+export interface ConstellationPackManifest {
+  /** ファイルの識別子（PACK_FORMAT） */
+  format: typeof PACK_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  description?: string;
+  constellations: PackConstellation[];
+}
+
+/**
+ * パックの星座を、判定結果として保存する星座ID にする
+ * パックどうしで ID が重ならないよう、パックの ID を前に付ける
+ */
+export function getPackConstellationId(pack: Pick<ConstellationPack, 'packId'>, constellation: PackConstellation): string {
+  return `pack:${pack.packId}/${constellation.id}`;
+}
+
+/**
+ * SVG 文字列として読めるか確かめる
+ */
+function isParsableSvg(svg: string): boolean {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  return doc.getElementsByTagName('parsererror').length === 0 && doc.documentElement.localName === 'svg';
+}
+
+/**
+ * 1つの星座の中身を確かめる
+ */
+function validateConstellation(value: unknown, index: number): PackConstellation {
+  const c = value as Partial<PackConstellation> | null;
+  const label = `${index + 1}番目の星座`;
+
+  if (!c || typeof c.id !== 'string' || !ID_PATTERN.test(c.id)) {
+    throw new Error(`${label}の id が正しくありません（英小文字・数字・-・_ のみ）`);
+  }
+  if (typeof c.name !== 'string' || c.name.trim() === '') {
+    throw new Error(`${label}（${c.id}）に名前がありません`);
+  }
+
+  const points = c.points;
+  if (!Array.isArray(points) || points.length < MIN_POINTS) {
+    throw new Error(`「${c.name}」の点は${MIN_POINTS}つ以上必要です`);
+  }
+  const inRange = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1;
+  if (!points.every((p) => p && inRange(p.x) && inRange(p.y))) {
+    throw new Error(`「${c.name}」の点の座標は 0〜1 の範囲で指定してください`);
+  }
+
+  const edges = c.edges ?? [];
+  const isIndex = (v: unknown) => Number.isInteger(v) && (v as number) >= 0 && (v as number) < points.length;
+  if (!Array.isArray(edges) || !edges.every((e) => Array.isArray(e) && e.length === 2 && isIndex(e[0]) && isIndex(e[1]))) {
+    throw new Error(`「${c.name}」の星座線が点の番号と合っていません`);
+  }
+
+  if (typeof c.svg !== 'string' || !isParsableSvg(c.svg)) {
+    throw new Error(`「${c.name}」の SVG を読み込めませんでした`);
+  }
+
+  return {
+    id: c.id,
+    name: c.name.trim(),
+    points: points.map((p) => ({ x: p.x, y: p.y })),
+    edges: edges.map(([a, b]) => [a, b] as [number, number]),
+    svg: c.svg,
+  };
+}
+
+/**
+ * パックファイルの中身を確かめる
+ */
+export function validatePackManifest(value: unknown): ConstellationPackManifest {
+  const manifest = value as Partial<ConstellationPackManifest> | null;
+  if (!manifest || manifest.format !== PACK_FORMAT) {
+    throw new Error('星座パックのファイルではありません');
+  }
+  if (manifest.version !== PACK_FORMAT_VERSION) {
+    throw new Error(`未対応の星座パック形式です (v${manifest.version})`);
+  }
+  if (typeof manifest.id !== 'string' || !ID_PATTERN.test(manifest.id)) {
+    throw new Error('パックの id が正しくありません（英小文字・数字・-・_ のみ）');
+  }
+  if (typeof manifest.name !== 'string' || manifest.name.trim() === '') {
+    throw new Error('パックの名前がありません');
+  }
+  if (!Array.isArray(manifest.constellations) || manifest.constellations.length === 0) {
+    throw new Error('パックに星座が入っていません');
+  }
+
+  const constellations = manifest.constellations.map(validateConstellation);
+  const ids = new Set<string>();
+  for (const c of constellations) {
+    if (ids.has(c.id)) {
+      throw new Error(`星座の id「${c.id}」が重複しています`);
+    }
+    ids.add(c.id);
+  }
+
+  return {
+    format: PACK_FORMAT,
+    version: manifest.version,
+    id: manifest.id,
+    name: manifest.name.trim(),
+    description: typeof manifest.description === 'string' ? manifest.description : undefined,
+    constellations,
+  };
+}
+
+/**
+ * パックファイルを読み込んで保存する
+ * @returns 読み込んだパックの中身
+ */
+export async function importConstellationPack(file: Blob): Promise<ConstellationPackManifest> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('星座パックのファイルを読み込めませんでした');
+  }
+  const manifest = validatePackManifest(parsed);
+
+  await saveConstellationPack({
+    packId: manifest.id,
+    name: manifest.name,
+    description: manifest.description,
+    constellations: manifest.constellations,
+  });
+  return manifest;
+}
@@ -0,0 +1,175 @@
+// ============================================
+// 日記の暗号化（WebCrypto: PBKDF2 + AES-GCM）
+// パスフレーズから鍵を導出し、メモと写真を暗号化する。
+// 鍵はメモリ上（このモジュール内）にだけ保持し、保存はしない
+// ============================================
+
+import type { DiaryEntry, DiaryPhoto, EncryptedPayload, VaultMeta } from '../types';
+
+/** PBKDF2 の反復回数 */
+export const PBKDF2_ITERATIONS = 310_000;
+
+/** パスフレーズの検証用に暗号化しておく文字列 */
+const VERIFIER_TEXT = 'seiza-nikki-vault';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// 解錠中の鍵（ロック中・金庫モードでないときは null）
+let sessionKey: CryptoKey | null = null;
+
+// ============================================
+// 鍵の導出・暗号化の基本操作
+// ============================================
+
+/**
+ * パスフレーズとソルトから AES-GCM 鍵を導出する
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * バイト列を暗号化する
+ */
+export async function encryptBytes(key: CryptoKey, data: BufferSource): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+  return { iv, data: encrypted };
+}
+
+/**
+ * バイト列を復号する（鍵が違う・改ざんされている場合は例外）
+ */
+export async function decryptBytes(key: CryptoKey, payload: EncryptedPayload): Promise<ArrayBuffer> {
+  return await crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data);
+}
+
+/**
+ * 新しいパスフレーズから金庫の情報（ソルト・検証用データ）と鍵を作る
+ */
+export async function createVaultMeta(passphrase: string): Promise<{ meta: VaultMeta; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+  const verifier = await encryptBytes(key, encoder.encode(VERIFIER_TEXT));
+  return { meta: { salt, iterations: PBKDF2_ITERATIONS, verifier }, key };
+}
+
+/**
+ * パスフレーズを検証して鍵を返す
+ * @throws パスフレーズが違う場合
+ */
+export async function verifyPassphrase(passphrase: string, meta: VaultMeta): Promise<CryptoKey> {
+  const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+  try {
+    const text = decoder.decode(await decryptBytes(key, meta.verifier));
+    if (text !== VERIFIER_TEXT) throw new Error('verifier mismatch');
+  } catch {
+    throw new Error('パスフレーズが違います');
+  }
+  return key;
+}
+
+// ============================================
+// セッション（解錠状態）
+// ============================================
+
+export function setSessionKey(key: CryptoKey | null): void {
+  sessionKey = key;
+}
+
+export function getSessionKey(): CryptoKey | null {
+  return sessionKey;
+}
+
+/**
+ * 金庫が解錠されているか
+ */
+export function isVaultUnlocked(): boolean {
+  return sessionKey !== null;
+}
+
+// ============================================
+// エントリ・写真の暗号化 / 復号
+// key を省略した場合は解錠中の鍵を使う（金庫モードでなければ何もしない）
+// ============================================
+
+/**
+ * 保存用にメモを暗号化する（更新用のフィールドを返す）
+ */
+export async function sealMemo(
+  memo: string,
+  key: CryptoKey | null = sessionKey
+): Promise<Pick<DiaryEntry, 'memo' | 'encryptedMemo'>> {
+  if (!key) return { memo, encryptedMemo: undefined };
+  return { memo: '', encryptedMemo: await encryptBytes(key, encoder.encode(memo)) };
+}
+
+/**
+ * 保存用にエントリのメモを暗号化する
+ */
+export async function sealEntry(entry: DiaryEntry, key: CryptoKey | null = sessionKey): Promise<DiaryEntry> {
+  if (!key || entry.encryptedMemo) return entry;
+  return { ...entry, ...(await sealMemo(entry.memo, key)) };
+}
+
+/**
+ * 表示用にエントリのメモを復号する
+ * ロック中は復号せずにそのまま返す（位置と日付だけで星空は描ける）
+ */
+export async function openEntry(entry: DiaryEntry, key: CryptoKey | null = sessionKey): Promise<DiaryEntry> {
+  if (!entry.encryptedMemo || !key) return entry;
+  const opened: DiaryEntry = {
+    ...entry,
+    memo: decoder.decode(await decryptBytes(key, entry.encryptedMemo)),
+  };
+  delete opened.encryptedMemo;
+  return opened;
+}
+
+/**
+ * 保存用に写真を暗号化する
+ */
+export async function sealPhoto(photo: DiaryPhoto, key: CryptoKey | null = sessionKey): Promise<DiaryPhoto> {
+  if (!key || photo.encryption) return photo;
+  const payload = await encryptBytes(key, await photo.photoBlob.arrayBuffer());
+  return {
+    entryId: photo.entryId,
+    photoBlob: new Blob([payload.data], { type: 'application/octet-stream' }),
+    encryption: { iv: payload.iv, mimeType: photo.photoBlob.type },
+  };
+}
+
+/**
+ * 表示用に写真を復号する
+ * @throws ロック中に暗号化された写真を開こうとした場合
+ */
+export async function openPhoto(photo: DiaryPhoto, key: CryptoKey | null = sessionKey): Promise<DiaryPhoto> {
+  if (!photo.encryption) return photo;
+  if (!key) throw new Error('日記がロックされています');
+  const data = await decryptBytes(key, {
+    iv: photo.encryption.iv,
+    data: await photo.photoBlob.arrayBuffer(),
+  });
+  return {
+    entryId: photo.entryId,
+    photoBlob: new Blob([data], { type: photo.encryption.mimeType }),
+  };
+}
@@ -0,0 +1,58 @@
+// ============================================
+// ユーザーが作った正解星座・星座パックの読み込み
+// DB のイラスト（Blob / SVG 文字列）を Object URL にして、判定用のレジストリに登録する
+// ============================================
+
+import { getCustomReferenceConstellations, getConstellationPacks } from './db';
+import { getPackConstellationId } from './constellationPacks';
+import { setCustomConstellations, type ReferenceConstellation } from '../data/constellations';
+
+/** 登録中のイラストの Object URL（読み込み直すときに解放する） */
+let activeUrls: string[] = [];
+
+/**
+ * イラストの Object URL を作り、次に読み込み直すときに解放できるよう覚えておく
+ */
+function createSvgUrl(svg: Blob | string): string {
+  const blob = typeof svg === 'string' ? new Blob([svg], { type: 'image/svg+xml' }) : svg;
+  const url = URL.createObjectURL(blob);
+  activeUrls.push(url);
+  return url;
+}
+
+/**
+ * ユーザーが作った正解星座と有効な星座パックを DB から読み込み、
+ * 組み込みの星座と一緒に判定できるようにする
+ */
+export async function loadCustomConstellations(): Promise<ReferenceConstellation[]> {
+  const [records, packs] = await Promise.all([
+    getCustomReferenceConstellations(),
+    getConstellationPacks(),
+  ]);
+
+  activeUrls.forEach((url) => URL.revokeObjectURL(url));
+  activeUrls = [];
+
+  const userMade = records.map((record) => ({
+    id: record.constellationId,
+    name: record.name,
+    points: record.points,
+    edges: record.edges,
+    svgPath: createSvgUrl(record.svgBlob),
+  }));
+
+  const fromPacks = (enabled: boolean) => packs
+    .filter((pack) => pack.enabled === enabled)
+    .flatMap((pack) => pack.constellations.map((c) => ({
+      id: getPackConstellationId(pack, c),
+      name: c.name,
+      points: c.points,
+      edges: c.edges,
+      svgPath: createSvgUrl(c.svg),
+    })));
+
+  // 無効にしたパックも、保存済みの判定結果を表示できるよう登録だけはしておく
+  const constellations = [...userMade, ...fromPacks(true)];
+  setCustomConstellations(constellations, fromPacks(false));
+  return constellations;
+}
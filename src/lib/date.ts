@@ -0,0 +1,50 @@
+// ============================================
+// 日記の日付ユーティリティ
+// 日付はすべて端末のローカルタイムゾーンで扱う
+// （toISOString() は UTC なので日記の日付には使わない）
+// ============================================
+
+/**
+ * Date をローカル日付の YYYY-MM-DD 文字列に変換する
+ */
+export function toLocalDateString(date: Date): string {
+  const yyyy = date.getFullYear();
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/**
+ * YYYY-MM-DD 文字列をローカル時刻の 0:00 として Date に変換する
+ * （new Date('YYYY-MM-DD') は UTC として解釈されるため使わない）
+ */
+export function parseDiaryDate(dateStr: string): Date {
+  const [yyyy, mm, dd] = dateStr.split('-').map(Number);
+  return new Date(yyyy, mm - 1, dd);
+}
+
+/**
+ * 指定時刻が属する「日記の日付」を返す
+ * @param now 基準となる時刻
+ * @param dayEndHour 1日の区切りの時刻（0〜23）。3 なら深夜3時までは前日扱い
+ */
+export function getDiaryDate(now: Date = new Date(), dayEndHour: number = 0): string {
+  const shifted = new Date(now);
+  shifted.setHours(shifted.getHours() - dayEndHour);
+  return toLocalDateString(shifted);
+}
+
+/**
+ * 日記の日付を表示用の文字列に変換する
+ */
+export function formatDiaryDate(dateStr: string): string {
+  return parseDiaryDate(dateStr).toLocaleDateString();
+}
+
+/**
+ * 旧実装（UTC 基準）で保存された場合の日付を返す
+ * 日付の修復で「UTC のずれで保存されたエントリ」を見分けるのに使う
+ */
+export function getLegacyUtcDate(createdAt: Date): string {
+  return new Date(createdAt).toISOString().split('T')[0];
+}
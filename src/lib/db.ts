@@ -1,5 +1,19 @@
 import Dexie, { type Table } from 'dexie';
-import type { DiaryEntry, Constellation, StarPosition, ConstellationLine } from '../types';
+import type { DiaryEntry, DiaryPhoto, Constellation, StarPosition, Mood, SkyFilter, ConstellationLine, AppSettings, SettingRecord, ConstellationDeleteMode, TrashItem, TrashSnapshot, VaultMeta, CustomReferenceConstellation, ConstellationPack } from '../types';
+import { UNASSIGNED_CONSTELLATION_ID } from '../types';
+import { getDiaryDate, getLegacyUtcDate } from './date';
+import { getPackConstellationId } from './constellationPacks';
+import {
+  createVaultMeta,
+  verifyPassphrase,
+  getSessionKey,
+  setSessionKey,
+  sealMemo,
+  sealEntry,
+  openEntry,
+  sealPhoto,
+  openPhoto,
+} from './crypto';
 
 // ============================================
 // Dexie データベースクラス
@@ -7,7 +21,12 @@ import type { DiaryEntry, Constellation, StarPosition, ConstellationLine } from
 
 class SeizaNikkiDB extends Dexie {
   diaryEntries!: Table<DiaryEntry, number>;
+  photos!: Table<DiaryPhoto, number>;
   constellations!: Table<Constellation, number>;
+  settings!: Table<SettingRecord, string>;
+  trash!: Table<TrashItem, number>;
+  customConstellations!: Table<CustomReferenceConstellation, number>;
+  constellationPacks!: Table<ConstellationPack, string>;
 
   constructor() {
     super('SeizaNikkiDB');
@@ -18,6 +37,87 @@ class SeizaNikkiDB extends Dexie {
       // id は自動インクリメント
       constellations: '++id, createdAt',
     });
+
+    // v2: 写真を別テーブルに分離（一覧取得時に Blob を読み込まないため）
+    this.version(2).stores({
+      diaryEntries: '++id, date, createdAt',
+      // entryId が主キー（DiaryEntry と 1:1）
+      photos: 'entryId',
+      constellations: '++id, createdAt',
+    }).upgrade(async (tx) => {
+      const photos: DiaryPhoto[] = [];
+      await tx.table('diaryEntries').toCollection().modify((entry) => {
+        if (entry.photoBlob) {
+          photos.push({ entryId: entry.id, photoBlob: entry.photoBlob });
+        }
+        delete entry.photoBlob;
+      });
+      await tx.table('photos').bulkPut(photos);
+    });
+
+    // v3: 所属星座をエントリ側に持たせ、未割り当て/星座ごとの取得をインデックスで行う
+    this.version(3).stores({
+      // [constellationId+date] で「星座N のエントリを日付順」に取得できる
+      diaryEntries: '++id, date, createdAt, [constellationId+date]',
+      photos: 'entryId',
+      constellations: '++id, createdAt',
+    }).upgrade(async (tx) => {
+      const constellations: Constellation[] = await tx.table('constellations').toArray();
+      const membership = new Map<number, number>();
+      constellations.forEach((c) => {
+        c.entryIds.forEach((entryId) => membership.set(entryId, c.id!));
+      });
+      await tx.table('diaryEntries').toCollection().modify((entry) => {
+        entry.constellationId = membership.get(entry.id) ?? UNASSIGNED_CONSTELLATION_ID;
+      });
+    });
+
+    // v4: ユーザー設定テーブルを追加
+    this.version(4).stores({
+      diaryEntries: '++id, date, createdAt, [constellationId+date]',
+      photos: 'entryId',
+      constellations: '++id, createdAt',
+      settings: 'key',
+    });
+
+    // v5: ゴミ箱（削除前のスナップショットを一定期間保存する）
+    this.version(5).stores({
+      diaryEntries: '++id, date, createdAt, [constellationId+date]',
+      photos: 'entryId',
+      constellations: '++id, createdAt',
+      settings: 'key',
+      trash: '++id, deletedAt',
+    });
+
+    // v6: タグ（マルチエントリ）と気分で絞り込めるようにする
+    this.version(6).stores({
+      diaryEntries: '++id, date, createdAt, [constellationId+date], *tags, mood',
+      photos: 'entryId',
+      constellations: '++id, createdAt',
+      settings: 'key',
+      trash: '++id, deletedAt',
+    });
+
+    // v7: ユーザーが作った正解星座
+    this.version(7).stores({
+      diaryEntries: '++id, date, createdAt, [constellationId+date], *tags, mood',
+      photos: 'entryId',
+      constellations: '++id, createdAt',
+      settings: 'key',
+      trash: '++id, deletedAt',
+      customConstellations: '++id, &constellationId, createdAt',
+    });
+
+    // v8: 読み込んだ星座パック
+    this.version(8).stores({
+      diaryEntries: '++id, date, createdAt, [constellationId+date], *tags, mood',
+      photos: 'entryId',
+      constellations: '++id, createdAt',
+      settings: 'key',
+      trash: '++id, deletedAt',
+      customConstellations: '++id, &constellationId, createdAt',
+      constellationPacks: 'packId, importedAt',
+    });
   }
 }
 
@@ -29,68 +129,169 @@ export const db = new SeizaNikkiDB();
 // ============================================
 
 /**
- * 日記エントリを追加する
+ * タグを保存用に整える（前後の空白と先頭の # を除き、重複をなくす）
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const cleaned = tags
+    .map((tag) => tag.trim().replace(/^[#＃]+/, '').trim())
+    .filter((tag) => tag.length > 0);
+  return Array.from(new Set(cleaned));
+}
+
+/**
+ * 日記エントリを追加する（写真は photos テーブルに保存）
+ * 金庫モードではメモと写真を暗号化して保存する
  */
 export async function addDiaryEntry(
   date: string,
   photoBlob: Blob,
   memo: string,
-  starPosition: StarPosition
+  starPosition: StarPosition,
+  details: { tags?: string[]; mood?: Mood } = {}
 ): Promise<number> {
-  return await db.diaryEntries.add({
-    date,
-    photoBlob,
-    memo,
-    starPosition,
-    createdAt: new Date(),
+  // WebCrypto の待ち合わせでトランザクションが閉じないよう、暗号化は先に済ませる
+  const sealedMemo = await sealMemo(memo);
+  const sealedPhoto = await sealPhoto({ entryId: 0, photoBlob });
+
+  return await db.transaction('rw', db.diaryEntries, db.photos, async () => {
+    const id = await db.diaryEntries.add({
+      date,
+      ...sealedMemo,
+      starPosition,
+      constellationId: UNASSIGNED_CONSTELLATION_ID,
+      createdAt: new Date(),
+      tags: normalizeTags(details.tags ?? []),
+      mood: details.mood,
+    });
+    await db.photos.put({ ...sealedPhoto, entryId: id });
+    return id;
   });
 }
 
+/**
+ * 暗号化されたメモをまとめて復号する（ロック中はそのまま）
+ */
+async function openEntries(entries: DiaryEntry[]): Promise<DiaryEntry[]> {
+  return await Promise.all(entries.map((entry) => openEntry(entry)));
+}
+
 /**
  * 指定した日付の日記エントリを取得する
  */
 export async function getDiaryEntryByDate(date: string): Promise<DiaryEntry | undefined> {
-  return await db.diaryEntries.where('date').equals(date).first();
+  const entry = await db.diaryEntries.where('date').equals(date).first();
+  return entry && await openEntry(entry);
 }
 
 /**
  * 指定したIDの日記エントリを取得する
  */
 export async function getDiaryEntryById(id: number): Promise<DiaryEntry | undefined> {
-  return await db.diaryEntries.get(id);
+  const entry = await db.diaryEntries.get(id);
+  return entry && await openEntry(entry);
+}
+
+/**
+ * 日記エントリの写真を取得する
+ * 一覧には写真を含めないので、詳細表示のときだけ呼ぶ
+ */
+export async function getDiaryPhoto(entryId: number): Promise<Blob | undefined> {
+  const photo = await db.photos.get(entryId);
+  return photo && (await openPhoto(photo)).photoBlob;
+}
+
+/**
+ * 日記エントリの写真を差し替える
+ */
+export async function updateDiaryPhoto(entryId: number, photoBlob: Blob): Promise<void> {
+  await db.photos.put(await sealPhoto({ entryId, photoBlob }));
 }
 
 /**
  * すべての日記エントリを取得する（日付順）
  */
 export async function getAllDiaryEntries(): Promise<DiaryEntry[]> {
-  return await db.diaryEntries.orderBy('date').toArray();
+  return await openEntries(await db.diaryEntries.orderBy('date').toArray());
 }
 
 /**
- * 星座に紐づいていない直近の日記エントリを取得する（最大7件）
+ * 指定した星座に属するエントリを日付順に取得するクエリ
  */
-export async function getUnassignedEntries(limit: number = 7): Promise<DiaryEntry[]> {
-  // すでに星座に使われているエントリIDを取得
-  const constellations = await db.constellations.toArray();
-  const usedIds = new Set(constellations.flatMap((c) => c.entryIds));
-
-  // 全エントリから未使用のものをフィルタ
-  const allEntries = await db.diaryEntries.orderBy('date').toArray();
-  const unassigned = allEntries.filter((entry) => entry.id && !usedIds.has(entry.id));
+function entriesOfConstellation(constellationId: number) {
+  return db.diaryEntries
+    .where('[constellationId+date]')
+    .between([constellationId, Dexie.minKey], [constellationId, Dexie.maxKey]);
+}
 
-  return unassigned.slice(0, limit);
+/**
+ * 星座に紐づいていない日記エントリを日付順に取得する（limit を省くとすべて）
+ */
+export async function getUnassignedEntries(limit?: number): Promise<DiaryEntry[]> {
+  const query = entriesOfConstellation(UNASSIGNED_CONSTELLATION_ID);
+  return await openEntries(await (limit === undefined ? query : query.limit(limit)).toArray());
 }
 
 /**
  * 今日すでに日記を書いたかどうかを確認する
  */
 export async function hasTodayEntry(): Promise<boolean> {
-  const today = new Date().toISOString().split('T')[0];
-  const entry = await getDiaryEntryByDate(today);
+  const { dayEndHour } = await getSettings();
+  const entry = await getDiaryEntryByDate(getDiaryDate(new Date(), dayEndHour));
   return entry !== undefined;
 }
 
+/**
+ * これまでに使ったタグをすべて取得する（五十音・辞書順）
+ */
+export async function getAllTags(): Promise<string[]> {
+  return (await db.diaryEntries.orderBy('tags').uniqueKeys()) as string[];
+}
+
+/**
+ * 絞り込み条件に一致するエントリの ID を取得する
+ * タグと気分の両方を指定した場合は両方に一致するもの
+ */
+export async function getEntryIdsMatchingFilter(filter: SkyFilter): Promise<Set<number>> {
+  const [byTag, byMood] = await Promise.all([
+    filter.tag !== null ? db.diaryEntries.where('tags').equals(filter.tag).primaryKeys() : null,
+    filter.mood !== null ? db.diaryEntries.where('mood').equals(filter.mood).primaryKeys() : null,
+  ]);
+  if (byTag && byMood) {
+    const moodIds = new Set(byMood);
+    return new Set(byTag.filter((id) => moodIds.has(id)));
+  }
+  return new Set(byTag ?? byMood ?? []);
+}
+
+/**
+ * 旧実装（UTC 基準）のせいで日付がずれて保存されたエントリを探す
+ * 保存日付が作成時刻の UTC 日付と一致し、かつローカルの日記日付と異なるものが対象
+ */
+export async function findMisdatedEntries(
+  dayEndHour: number
+): Promise<{ entry: DiaryEntry; correctDate: string }[]> {
+  const entries = await db.diaryEntries.orderBy('date').toArray();
+  return entries
+    .map((entry) => ({ entry, correctDate: getDiaryDate(new Date(entry.createdAt), dayEndHour) }))
+    .filter(({ entry, correctDate }) =>
+      entry.date === getLegacyUtcDate(entry.createdAt) && entry.date !== correctDate
+    );
+}
+
+/**
+ * ずれた日付を修復する
+ * @returns 修復したエントリ数
+ */
+export async function repairEntryDates(dayEndHour: number): Promise<number> {
+  return await db.transaction('rw', db.diaryEntries, async () => {
+    const targets = await findMisdatedEntries(dayEndHour);
+    for (const { entry, correctDate } of targets) {
+      await db.diaryEntries.update(entry.id!, { date: correctDate });
+    }
+    return targets.length;
+  });
+}
+
 /**
  * 日記エントリを更新する
  */
@@ -98,43 +299,150 @@ export async function updateDiaryEntry(
   id: number,
   updates: Partial<Omit<DiaryEntry, 'id' | 'createdAt'>>
 ): Promise<void> {
+  if (updates.memo !== undefined) {
+    updates = { ...updates, ...(await sealMemo(updates.memo)) };
+  }
   await db.diaryEntries.update(id, updates);
 }
 
 /**
- * 日記エントリを削除する
+ * 日記エントリの編集内容を保存する（写真の差し替えも同じトランザクションで行う）
+ * 星座の星を動かしたときは、イラストの重ね合わせ・類似度・レア度を消して、読み込み時に求め直させる
  */
-export async function deleteDiaryEntry(id: number): Promise<void> {
-  await db.diaryEntries.delete(id);
+export async function saveDiaryEntryEdits(
+  id: number,
+  edits: { memo: string; starPosition: StarPosition; tags: string[]; mood?: Mood; photoBlob?: Blob }
+): Promise<void> {
+  const sealedMemo = await sealMemo(edits.memo);
+  const sealedPhoto = edits.photoBlob && await sealPhoto({ entryId: id, photoBlob: edits.photoBlob });
+
+  await db.transaction('rw', db.diaryEntries, db.photos, db.constellations, async () => {
+    const entry = await db.diaryEntries.get(id);
+    const moved = entry !== undefined &&
+      (entry.starPosition.x !== edits.starPosition.x || entry.starPosition.y !== edits.starPosition.y);
+    if (moved && entry.constellationId !== UNASSIGNED_CONSTELLATION_ID) {
+      // undefined の項目は Dexie の update で削除される
+      await db.constellations.update(entry.constellationId, {
+        overlayTransform: undefined,
+        matchSimilarity: undefined,
+        // レア度も動かす前の形のものなので残さない
+        matchRarity: undefined,
+      });
+    }
+
+    await db.diaryEntries.update(id, {
+      ...sealedMemo,
+      starPosition: edits.starPosition,
+      tags: normalizeTags(edits.tags),
+      mood: edits.mood,
+    });
+    if (sealedPhoto) {
+      await db.photos.put(sealedPhoto);
+    }
+  });
+}
+
+/**
+ * 日記エントリを削除する（写真も削除）
+ * 星座に属している場合は mode に従って星座を解散するか「失われた星」として残す。
+ * 星座の entryIds / lines が壊れないよう、すべて1つのトランザクションで行う
+ * @returns ゴミ箱の項目ID（元に戻すときに使う）。エントリがなければ null
+ */
+export async function deleteDiaryEntry(
+  id: number,
+  mode: ConstellationDeleteMode = 'dissolve'
+): Promise<number | null> {
+  return await db.transaction('rw', [db.diaryEntries, db.photos, db.constellations, db.trash], async () => {
+    const entry = await db.diaryEntries.get(id);
+    if (!entry) return null;
+
+    // 影響を受ける行（エントリ・写真・所属星座とそのメンバー）を先に保存しておく
+    const affectedIds = entry.constellationId === UNASSIGNED_CONSTELLATION_ID
+      ? [id]
+      : (await entriesOfConstellation(entry.constellationId).primaryKeys());
+    const trashId = await moveToTrash('entry', `${entry.date} の記録`, {
+      entryIds: affectedIds,
+      constellationIds: entry.constellationId === UNASSIGNED_CONSTELLATION_ID ? [] : [entry.constellationId],
+    });
+
+    await db.photos.delete(id);
+
+    if (entry.constellationId === UNASSIGNED_CONSTELLATION_ID) {
+      await db.diaryEntries.delete(id);
+      return trashId;
+    }
+
+    if (mode === 'keep-lost-star') {
+      // 位置と日付だけを残し、線のインデックスを保つ
+      await db.diaryEntries.update(id, { memo: '', encryptedMemo: undefined, tags: [], mood: undefined, isLost: true });
+      return trashId;
+    }
+
+    await db.diaryEntries.delete(id);
+    await dissolveConstellation(entry.constellationId);
+    return trashId;
+  });
 }
 
 // ============================================
 // Constellation 操作関数
 // ============================================
 
+/**
+ * エントリを星座に所属させる（トランザクション内で呼ぶこと）
+ */
+export async function assignEntriesToConstellation(
+  constellationId: number,
+  entryIds: number[]
+): Promise<void> {
+  await db.diaryEntries.where(':id').anyOf(entryIds).modify({ constellationId });
+}
+
+/**
+ * 星座の判定結果として保存する項目
+ */
+export type ConstellationMatchFields = Pick<
+  Constellation,
+  'matchedConstellationId' | 'overlayTransform' | 'matchSimilarity' | 'matchRarity'
+>;
+
 /**
  * 星座を作成する
+ * 星座の追加とエントリの所属更新は1つのトランザクションで行う
  */
 export async function createConstellation(
   name: string,
   entryIds: number[],
   lines: ConstellationLine[],
-  matchedConstellationId?: string
+  match: ConstellationMatchFields = {}
 ): Promise<number> {
-  return await db.constellations.add({
-    name,
-    entryIds,
-    lines,
-    matchedConstellationId,
-    createdAt: new Date(),
+  return await db.transaction('rw', db.diaryEntries, db.constellations, async () => {
+    const members = await db.diaryEntries.bulkGet(entryIds);
+    if (members.some((e) => !e || e.constellationId !== UNASSIGNED_CONSTELLATION_ID)) {
+      throw new Error('星座に使えないエントリが含まれています');
+    }
+
+    const id = await db.constellations.add({
+      name,
+      entryIds,
+      lines,
+      ...match,
+      createdAt: new Date(),
+    });
+    await assignEntriesToConstellation(id, entryIds);
+    return id;
   });
 }
 
 /**
- * すべての星座を取得する
+ * すべての星座を星空に並べる順に取得する
+ * sortOrder のない星座は、ある星座の後ろに作成順で並べる
  */
 export async function getAllConstellations(): Promise<Constellation[]> {
-  return await db.constellations.orderBy('createdAt').toArray();
+  const constellations = await db.constellations.orderBy('createdAt').toArray();
+  return constellations.sort(
+    (a, b) => (a.sortOrder ?? Number.POSITIVE_INFINITY) - (b.sortOrder ?? Number.POSITIVE_INFINITY)
+  );
 }
 
 /**
@@ -153,11 +461,10 @@ export async function getEntriesForConstellation(
   const constellation = await db.constellations.get(constellationId);
   if (!constellation) return [];
 
-  const entries = await Promise.all(
-    constellation.entryIds.map((id) => db.diaryEntries.get(id))
-  );
-
-  return entries.filter((entry): entry is DiaryEntry => entry !== undefined);
+  // lines のインデックスは entryIds の並び順に対応するので、その順に並べ替える
+  const entries = await openEntries(await entriesOfConstellation(constellationId).toArray());
+  const order = new Map(constellation.entryIds.map((id, index) => [id, index]));
+  return entries.sort((a, b) => (order.get(a.id!) ?? 0) - (order.get(b.id!) ?? 0));
 }
 
 /**
@@ -171,23 +478,432 @@ export async function updateConstellationName(
 }
 
 /**
- * 星座を削除する
+ * 星座の判定結果を差し替える（どの星座にも似ていない形にするときは空のオブジェクトを渡す）
+ */
+export async function updateConstellationMatch(
+  id: number,
+  match: ConstellationMatchFields
+): Promise<void> {
+  // undefined の項目は Dexie の update で削除される
+  await db.constellations.update(id, {
+    matchedConstellationId: match.matchedConstellationId,
+    overlayTransform: match.overlayTransform,
+    matchSimilarity: match.matchSimilarity,
+    matchRarity: match.matchRarity,
+  });
+}
+
+/**
+ * 星座の並び順を保存する
+ * @param orderedIds - 星空に並べる順（左から）の星座ID
  */
-export async function deleteConstellation(id: number): Promise<void> {
+export async function reorderConstellations(orderedIds: number[]): Promise<void> {
+  await db.transaction('rw', db.constellations, async () => {
+    for (const [sortOrder, id] of orderedIds.entries()) {
+      await db.constellations.update(id, { sortOrder });
+    }
+  });
+}
+
+/**
+ * 星座を解散し、所属していたエントリを未割り当てに戻す（トランザクション内で呼ぶこと）
+ * 「失われた星」は星座の外では意味を持たないので一緒に削除する
+ */
+async function dissolveConstellation(id: number): Promise<void> {
+  const members = await entriesOfConstellation(id).toArray();
+  const lostIds = members.filter((e) => e.isLost).map((e) => e.id!);
+  await db.diaryEntries.bulkDelete(lostIds);
+  await entriesOfConstellation(id).modify({ constellationId: UNASSIGNED_CONSTELLATION_ID });
   await db.constellations.delete(id);
 }
 
+/**
+ * 星座を削除する（所属していたエントリは未割り当てに戻る）
+ * @returns ゴミ箱の項目ID（元に戻すときに使う）。星座がなければ null
+ */
+export async function deleteConstellation(id: number): Promise<number | null> {
+  return await db.transaction('rw', [db.diaryEntries, db.photos, db.constellations, db.trash], async () => {
+    const constellation = await db.constellations.get(id);
+    if (!constellation) return null;
+
+    const trashId = await moveToTrash('constellation', constellation.name, {
+      entryIds: await entriesOfConstellation(id).primaryKeys(),
+      constellationIds: [id],
+    });
+    await dissolveConstellation(id);
+    return trashId;
+  });
+}
+
+// ============================================
+// ゴミ箱 操作関数
+// ============================================
+
+/**
+ * 指定した行のスナップショットをゴミ箱に入れる（トランザクション内で呼ぶこと）
+ * 実際の削除・変更は呼び出し側で行う
+ */
+async function moveToTrash(
+  kind: TrashItem['kind'],
+  label: string,
+  target: { entryIds: number[]; constellationIds: number[] }
+): Promise<number> {
+  const [entries, photos, constellations] = await Promise.all([
+    db.diaryEntries.bulkGet(target.entryIds),
+    db.photos.bulkGet(target.entryIds),
+    db.constellations.bulkGet(target.constellationIds),
+  ]);
+
+  const snapshot: TrashSnapshot = {
+    diaryEntries: entries.filter((e): e is DiaryEntry => e !== undefined),
+    photos: photos.filter((p): p is DiaryPhoto => p !== undefined),
+    constellations: constellations.filter((c): c is Constellation => c !== undefined),
+  };
+
+  return await db.trash.add({ kind, label, deletedAt: new Date(), snapshot });
+}
+
+/**
+ * いまのエントリ・写真・星座をすべて1つの項目としてゴミ箱に入れる（トランザクション内で呼ぶこと）
+ * 実際の削除は呼び出し側で行う
+ * @returns ゴミ箱の項目ID（データが空だった場合は null）
+ */
+export async function moveAllDataToTrash(label: string): Promise<number | null> {
+  const [entryIds, constellationIds] = await Promise.all([
+    db.diaryEntries.toCollection().primaryKeys(),
+    db.constellations.toCollection().primaryKeys(),
+  ]);
+  if (entryIds.length === 0 && constellationIds.length === 0) return null;
+  return await moveToTrash('all', label, { entryIds, constellationIds });
+}
+
+/**
+ * ゴミ箱の中身を新しい順に取得する
+ */
+export async function getTrashItems(): Promise<TrashItem[]> {
+  return await db.trash.orderBy('deletedAt').reverse().toArray();
+}
+
+/**
+ * ゴミ箱から元に戻す
+ * スナップショットの行を書き戻すが、その後に別の星座に使われたエントリがある場合は
+ * 星座の整合性が壊れるため復元しない
+ */
+export async function restoreFromTrash(trashId: number): Promise<void> {
+  await db.transaction('rw', [db.diaryEntries, db.photos, db.constellations, db.trash], async () => {
+    const item = await db.trash.get(trashId);
+    if (!item) return;
+    const { diaryEntries, photos, constellations } = item.snapshot;
+
+    const restoringConstellationIds = new Set(constellations.map((c) => c.id));
+    const current = await db.diaryEntries.bulkGet(diaryEntries.map((e) => e.id!));
+    const conflict = current.some((e) =>
+      e !== undefined &&
+      e.constellationId !== UNASSIGNED_CONSTELLATION_ID &&
+      !restoringConstellationIds.has(e.constellationId)
+    );
+    if (conflict) {
+      throw new Error('この記録はすでに別の星座に使われているため元に戻せません');
+    }
+
+    await db.diaryEntries.bulkPut(diaryEntries);
+    await db.photos.bulkPut(photos);
+    await db.constellations.bulkPut(constellations);
+    await db.trash.delete(trashId);
+  });
+}
+
+/**
+ * ゴミ箱の項目を完全に削除する
+ */
+export async function purgeTrashItem(trashId: number): Promise<void> {
+  await db.trash.delete(trashId);
+}
+
+/**
+ * 保存期間を過ぎたゴミ箱の項目を完全に削除する
+ * @returns 削除した件数
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<number> {
+  const threshold = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  return await db.trash.where('deletedAt').below(threshold).delete();
+}
+
+// ============================================
+// ユーザー作成の正解星座 操作関数
+// ============================================
+
+/**
+ * ユーザーが作った正解星座をすべて取得する（作成順）
+ */
+export async function getCustomReferenceConstellations(): Promise<CustomReferenceConstellation[]> {
+  return await db.customConstellations.orderBy('createdAt').toArray();
+}
+
+/**
+ * 正解星座を追加する
+ * 星座線は点を置いた順につなぐ
+ */
+export async function addCustomReferenceConstellation(
+  name: string,
+  points: StarPosition[],
+  svgBlob: Blob
+): Promise<number> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('星座の名前を入力してください');
+  }
+  if (points.length < 3) {
+    throw new Error('星を3つ以上置いてください');
+  }
+
+  return await db.customConstellations.add({
+    constellationId: `custom-${crypto.randomUUID()}`,
+    name: trimmed,
+    points,
+    edges: points.slice(1).map((_, i) => [i, i + 1] as [number, number]),
+    svgBlob,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * 消した形で判定されていた星座の判定結果を外す（不思議な星座として表示される）
+ */
+async function clearMatchesFor(referenceIds: string[]): Promise<void> {
+  const ids = new Set(referenceIds);
+  await db.constellations
+    .filter((c) => c.matchedConstellationId !== undefined && ids.has(c.matchedConstellationId))
+    .modify((c) => {
+      delete c.matchedConstellationId;
+      delete c.overlayTransform;
+      delete c.matchSimilarity;
+      delete c.matchRarity;
+    });
+}
+
+/**
+ * 正解星座を削除する
+ * すでにこの形で判定された星座は、判定結果なし（不思議な星座）として表示される
+ */
+export async function deleteCustomReferenceConstellation(id: number): Promise<void> {
+  await db.transaction('rw', db.customConstellations, db.constellations, async () => {
+    const record = await db.customConstellations.get(id);
+    await db.customConstellations.delete(id);
+    if (record) await clearMatchesFor([record.constellationId]);
+  });
+}
+
+// ============================================
+// 星座パック 操作関数
+// ============================================
+
+/**
+ * 読み込んだ星座パックをすべて取得する（読み込んだ順）
+ */
+export async function getConstellationPacks(): Promise<ConstellationPack[]> {
+  return await db.constellationPacks.orderBy('importedAt').toArray();
+}
+
+/**
+ * 星座パックを保存する（同じ ID のパックがあれば置き換え、有効/無効はそのまま引き継ぐ）
+ */
+export async function saveConstellationPack(pack: Omit<ConstellationPack, 'enabled' | 'importedAt'>): Promise<void> {
+  await db.transaction('rw', db.constellationPacks, async () => {
+    const existing = await db.constellationPacks.get(pack.packId);
+    await db.constellationPacks.put({
+      ...pack,
+      enabled: existing?.enabled ?? true,
+      importedAt: existing?.importedAt ?? new Date(),
+    });
+  });
+}
+
+/**
+ * 星座パックを判定に使うかどうかを切り替える
+ */
+export async function setConstellationPackEnabled(packId: string, enabled: boolean): Promise<void> {
+  await db.constellationPacks.update(packId, { enabled });
+}
+
+/**
+ * 星座パックを削除する
+ * パックの形で判定された星座は、判定結果なし（不思議な星座）として表示される
+ */
+export async function deleteConstellationPack(packId: string): Promise<void> {
+  await db.transaction('rw', db.constellationPacks, db.constellations, async () => {
+    const pack = await db.constellationPacks.get(packId);
+    await db.constellationPacks.delete(packId);
+    if (pack) await clearMatchesFor(pack.constellations.map((c) => getPackConstellationId(pack, c)));
+  });
+}
+
+// ============================================
+// 設定 操作関数
+// ============================================
+
+/**
+ * 設定のデフォルト値
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  dayEndHour: 0,
+  constellationGrouping: 'count',
+  constellationSize: 7,
+  trashRetentionDays: 30,
+  vault: null,
+};
+
+/**
+ * すべての設定を取得する（未保存の項目はデフォルト値）
+ */
+export async function getSettings(): Promise<AppSettings> {
+  const records = await db.settings.toArray();
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const record of records) {
+    if (record.key in settings) {
+      Object.assign(settings, { [record.key]: record.value });
+    }
+  }
+  return settings;
+}
+
+/**
+ * 設定を更新する
+ */
+export async function updateSettings(updates: Partial<AppSettings>): Promise<void> {
+  const records = Object.entries(updates).map(([key, value]) => ({ key, value }) as SettingRecord);
+  await db.settings.bulkPut(records);
+}
+
+// ============================================
+// 金庫モード（パスフレーズ保護）操作関数
+// ============================================
+
+/**
+ * 全データ（ゴミ箱のスナップショットを含む）を別の鍵で暗号化し直す
+ * fromKey が null なら平文から、toKey が null なら平文へ戻す。
+ * 途中で中断して鍵が混在しないよう、読み込み・変換・書き込みと金庫の情報の更新を
+ * 1つのトランザクションで行う（読んでから書くまでの間に追加されたエントリを取りこぼさないように）
+ */
+async function reencryptAll(
+  fromKey: CryptoKey | null,
+  toKey: CryptoKey | null,
+  vault: VaultMeta | null
+): Promise<void> {
+  const convertEntries = (list: DiaryEntry[]) =>
+    Promise.all(list.map(async (e) => sealEntry(await openEntry(e, fromKey), toKey)));
+  const convertPhotos = (list: DiaryPhoto[]) =>
+    Promise.all(list.map(async (p) => sealPhoto(await openPhoto(p, fromKey), toKey)));
+
+  await db.transaction('rw', [db.diaryEntries, db.photos, db.trash, db.settings], async () => {
+    const [entries, photos, trashItems] = await Promise.all([
+      db.diaryEntries.toArray(),
+      db.photos.toArray(),
+      db.trash.toArray(),
+    ]);
+
+    // 暗号化は IndexedDB の外の非同期処理なので、Dexie.waitFor でトランザクションを閉じずに待つ
+    const [nextEntries, nextPhotos, nextTrash] = await Dexie.waitFor(Promise.all([
+      convertEntries(entries),
+      convertPhotos(photos),
+      Promise.all(trashItems.map(async (item): Promise<TrashItem> => ({
+        ...item,
+        snapshot: {
+          ...item.snapshot,
+          diaryEntries: await convertEntries(item.snapshot.diaryEntries),
+          photos: await convertPhotos(item.snapshot.photos),
+        },
+      }))),
+    ]));
+
+    await db.diaryEntries.bulkPut(nextEntries);
+    await db.photos.bulkPut(nextPhotos);
+    await db.trash.bulkPut(nextTrash);
+    await updateSettings({ vault });
+  });
+}
+
+/**
+ * 金庫モードを有効にし、既存のメモと写真を暗号化する
+ */
+export async function enableVault(passphrase: string): Promise<void> {
+  const { vault } = await getSettings();
+  if (vault) throw new Error('すでにパスフレーズが設定されています');
+
+  const { meta, key } = await createVaultMeta(passphrase);
+  await reencryptAll(null, key, meta);
+  setSessionKey(key);
+}
+
+/**
+ * パスフレーズで金庫を解錠する
+ * @throws パスフレーズが違う場合
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  const { vault } = await getSettings();
+  if (!vault) return;
+  setSessionKey(await verifyPassphrase(passphrase, vault));
+}
+
+/**
+ * 金庫をロックする（鍵をメモリから消す）
+ */
+export function lockVault(): void {
+  setSessionKey(null);
+}
+
+/**
+ * パスフレーズを変更し、全データを新しい鍵で暗号化し直す
+ */
+export async function changeVaultPassphrase(current: string, next: string): Promise<void> {
+  const { vault } = await getSettings();
+  if (!vault) throw new Error('パスフレーズが設定されていません');
+
+  const currentKey = await verifyPassphrase(current, vault);
+  const { meta, key } = await createVaultMeta(next);
+  await reencryptAll(currentKey, key, meta);
+  setSessionKey(key);
+}
+
+/**
+ * 金庫モードを解除し、メモと写真を平文に戻す
+ */
+export async function disableVault(passphrase: string): Promise<void> {
+  const { vault } = await getSettings();
+  if (!vault) return;
+
+  const key = await verifyPassphrase(passphrase, vault);
+  await reencryptAll(key, null, null);
+  setSessionKey(null);
+}
+
+/**
+ * 金庫モードでロック中かどうか
+ */
+export async function isVaultLocked(): Promise<boolean> {
+  const { vault } = await getSettings();
+  return vault !== null && getSessionKey() === null;
+}
+
 // ============================================
 // デバッグ・テスト用関数
 // ============================================
 
 /**
  * 全データを削除してリセットする
+ * 削除前の全データはゴミ箱に入るので、元に戻すことができる
+ * @returns ゴミ箱の項目ID（データが空だった場合は null）
  */
-export async function resetAllData(): Promise<void> {
-  await db.diaryEntries.clear();
-  await db.constellations.clear();
-  console.log('✅ All data has been reset');
+export async function resetAllData(): Promise<number | null> {
+  return await db.transaction('rw', [db.diaryEntries, db.photos, db.constellations, db.trash], async () => {
+    const trashId = await moveAllDataToTrash('すべてのデータ');
+
+    await db.diaryEntries.clear();
+    await db.photos.clear();
+    await db.constellations.clear();
+    console.log('✅ All data has been reset');
+    return trashId;
+  });
 }
 
 /**
@@ -254,7 +970,7 @@ export async function createTestData(): Promise<void> {
     { fromIndex: 3, toIndex: 4 },
     { fromIndex: 3, toIndex: 5 },
     { fromIndex: 3, toIndex: 6 },
-  ], 'kurage');
+  ], { matchedConstellationId: 'kurage' });
 
   // 星座2: 「イルカ座」（7つの星）- 実際のイルカ座の点群データを使用
   const constellation2Entries: number[] = [];
@@ -283,7 +999,7 @@ export async function createTestData(): Promise<void> {
     { fromIndex: 2, toIndex: 4 },
     { fromIndex: 4, toIndex: 5 },
     { fromIndex: 4, toIndex: 6 },
-  ], 'iruka');
+  ], { matchedConstellationId: 'iruka' });
 
   // 星座3: 「さそり座」（7つの星）- 実際のさそり座の点群データを使用
   const constellation3Entries: number[] = [];
@@ -312,7 +1028,7 @@ export async function createTestData(): Promise<void> {
     { fromIndex: 3, toIndex: 4 },
     { fromIndex: 4, toIndex: 6 },
     { fromIndex: 5, toIndex: 6 },
-  ], 'sasori');
+  ], { matchedConstellationId: 'sasori' });
 
   // 未割り当ての星（6つ）
   const unassignedPositions = [
@@ -325,14 +1041,14 @@ export async function createTestData(): Promise<void> {
   ];
 
   for (let i = 0; i < 6; i++) {
-    await db.diaryEntries.add({ // 直接 add を呼ぶか、修正後の addDiaryEntry を使う
-      date: formatDate(2025, 12, 6 + i),
-      photoBlob: dummyBlob,
-      memo: makeMemo(`未割り当て-${i + 1}`),
-      starPosition: unassignedPositions[i],
-      isConnectedToPrevious: i > 0, // 0番目以外は前の星と繋がる
-      createdAt: new Date(),
-    });
+    const id = await addDiaryEntry(
+      formatDate(2025, 12, 6 + i),
+      dummyBlob,
+      makeMemo(`未割り当て-${i + 1}`),
+      unassignedPositions[i]
+    );
+    // 0番目以外は前の星と繋がる
+    await updateDiaryEntry(id, { isConnectedToPrevious: i > 0 });
   }
 
   console.log('✅ Test data created: 3 constellations (くらげ座, イルカ座, さそり座) + 6 unassigned entries');
@@ -0,0 +1,79 @@
+// ============================================
+// 未割り当ての星を星座のまとまりに分ける
+// 「N 件ごと」か「暦の1週間（月〜日）ごと」か、N をいくつにするかは設定で選ぶ
+// ============================================
+
+import type { AppSettings } from '../types';
+import { parseDiaryDate, toLocalDateString } from './date';
+
+/**
+ * まとめ方に関わる設定
+ */
+export type GroupingSettings = Pick<AppSettings, 'constellationGrouping' | 'constellationSize'>;
+
+/** 1週間の日数（週ごとにまとめるときの最大の星の数） */
+const DAYS_PER_WEEK = 7;
+
+/**
+ * その日が属する週の月曜日（YYYY-MM-DD）
+ */
+export function getWeekStart(date: string): string {
+  const day = parseDiaryDate(date);
+  // getDay() は日曜が 0 なので、月曜を 0 にずらす
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return toLocalDateString(day);
+}
+
+/**
+ * 日付順に並んだ未割り当てのエントリを、星座のまとまりに分ける
+ * 週ごとのときは日記を書かなかった日があればそのぶん星が少なくなる
+ */
+export function splitIntoGroups<T extends { date: string }>(entries: T[], settings: GroupingSettings): T[][] {
+  const groups: T[][] = [];
+  let currentKey: string | null = null;
+
+  entries.forEach((entry, index) => {
+    const key = settings.constellationGrouping === 'week'
+      ? getWeekStart(entry.date)
+      : String(Math.floor(index / settings.constellationSize));
+    if (key !== currentKey) {
+      groups.push([]);
+      currentKey = key;
+    }
+    groups[groups.length - 1].push(entry);
+  });
+  return groups;
+}
+
+/**
+ * 1つの星座に入れられる星の数の範囲
+ * 週ごとのときは、書かなかった日を除いた残りの星だけでも星座にできる
+ */
+export function getMemberCountRange(settings: GroupingSettings): { min: number; max: number } {
+  return settings.constellationGrouping === 'week'
+    ? { min: 1, max: DAYS_PER_WEEK }
+    : { min: settings.constellationSize, max: settings.constellationSize };
+}
+
+/**
+ * 星座に入れる星の選択を切り替える（選べる数の上限を超える追加はしない）
+ */
+export function toggleMemberSelection(selectedIds: number[], id: number, maxCount: number): number[] {
+  if (selectedIds.includes(id)) {
+    return selectedIds.filter((selectedId) => selectedId !== id);
+  }
+  return selectedIds.length < maxCount ? [...selectedIds, id] : selectedIds;
+}
+
+/**
+ * まとまりが星座にできる状態かどうか
+ * 件数ごとなら星がそろったとき、週ごとなら週が終わったか7日ぶんそろったとき
+ * @param today 今日の日記の日付（YYYY-MM-DD）
+ */
+export function isGroupComplete(group: { date: string }[], settings: GroupingSettings, today: string): boolean {
+  if (group.length === 0) return false;
+  if (settings.constellationGrouping === 'week') {
+    return group.length >= DAYS_PER_WEEK || getWeekStart(group[0].date) < getWeekStart(today);
+  }
+  return group.length >= settings.constellationSize;
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getCalibration, getRarity, getRarityRank, matchConstellation } from './matchCalibration';
+import { matchAgainst } from './constellationMatcher';
+import { createRandom } from './random';
+import { referenceConstellations, setCustomConstellations } from '../data/constellations';
+
+/** 較正とは別の種で作ったランダムな点群 */
+const randomPointSets = (count: number, pointCount: number) => {
+  const random = createRandom(12345);
+  return Array.from({ length: count }, () =>
+    Array.from({ length: pointCount }, () => ({ x: random(), y: random() }))
+  );
+};
+
+describe('matchConstellation', () => {
+  it('星が1つだけなら、どの星座にも判定しない', () => {
+    expect(matchConstellation([{ x: 0.5, y: 0.5 }]).match).toBeNull();
+  });
+
+  it('星が2つだけなら、どの星座にも判定しない', () => {
+    const points = [{ x: 0.2, y: 0.3 }, { x: 0.7, y: 0.8 }];
+    expect(matchConstellation(points).match).toBeNull();
+    expect(matchConstellation(points, { lines: [{ fromIndex: 0, toIndex: 1 }] }).match).toBeNull();
+  });
+
+  for (const reference of referenceConstellations) {
+    it(`${reference.name}の形そのものなら、較正した閾値を超えてその星座と判定する`, () => {
+      const { match } = matchConstellation(reference.points);
+      expect(match?.constellationId).toBe(reference.id);
+      expect(match!.similarity).toBeGreaterThanOrEqual(getCalibration(reference.id, reference.points.length).threshold);
+    });
+  }
+});
+
+describe('getCalibration', () => {
+  afterEach(() => setCustomConstellations([]));
+
+  for (const reference of referenceConstellations) {
+    it(`${reference.name}: でたらめに置いた星のほとんどは閾値に届かない`, () => {
+      const pointCount = reference.points.length;
+      const { threshold } = getCalibration(reference.id, pointCount);
+      const sets = randomPointSets(100, pointCount);
+      const passed = sets.filter((points) => (matchAgainst(points, reference.id)?.similarity ?? 0) >= threshold);
+      // 閾値はランダムな点群の上位 10% の境目なので、別の乱数でもおおむね 1 割程度しか超えない
+      expect(passed.length).toBeLessThan(25);
+    });
+  }
+
+  it('同じ ID のまま形が変わったら、較正し直す', () => {
+    const base = referenceConstellations[0];
+    setCustomConstellations([{ ...base, id: 'custom-test' }]);
+    const before = getCalibration('custom-test', 7);
+    expect(getCalibration('custom-test', 7)).toBe(before);
+
+    setCustomConstellations([{ ...base, id: 'custom-test', points: referenceConstellations[1].points }]);
+    expect(getCalibration('custom-test', 7)).not.toBe(before);
+  });
+});
+
+describe('getRarity', () => {
+  it('ランダムな点群の何割より高いかを返す', () => {
+    const calibration = { threshold: 0.5, samples: [0.1, 0.2, 0.3, 0.4] };
+    expect(getRarity(calibration, 0.05)).toBe(0);
+    expect(getRarity(calibration, 0.25)).toBe(0.5);
+    expect(getRarity(calibration, 0.9)).toBe(1);
+  });
+});
+
+describe('getRarityRank', () => {
+  it('0.97 と 0.995 を境に段階が上がる', () => {
+    expect(getRarityRank(0.969).stars).toBe(1);
+    expect(getRarityRank(0.97).stars).toBe(2);
+    expect(getRarityRank(0.994).stars).toBe(2);
+    expect(getRarityRank(0.995).stars).toBe(3);
+    expect(getRarityRank(1).stars).toBe(3);
+  });
+
+  it('最低の段階より下でも、いちばん下の段階を返す', () => {
+    expect(getRarityRank(0).stars).toBe(1);
+  });
+});
@@ -0,0 +1,135 @@
+// ============================================
+// 星座判定の較正とレア度
+// でたらめに置いた星でもそこそこ似てしまう形があるため、
+// 正解星座ごとにランダムな点群の類似度の分布を求め、それを基準に判定とレア度を決める
+// ============================================
+
+import { calculateAllSimilarities, matchAgainst, MIN_MATCHED_POINTS, type MatchOptions, type MatchResult, type Point2D } from './constellationMatcher';
+import { generateDateOrderLines } from './constellationLines';
+import { getConstellationById } from '../data/constellations';
+import { createRandom } from './random';
+
+/** 較正に使うランダムな点群の数 */
+const CALIBRATION_SAMPLES = 256;
+
+/** ランダムな点群のうち、これより上位に入れば「似ている」とみなす割合 */
+const THRESHOLD_QUANTILE = 0.9;
+
+/** 較正の乱数の種（結果が毎回同じになるよう固定） */
+const CALIBRATION_SEED = 20250707;
+
+/**
+ * レア度の段階（rarity がこの値以上なら該当）
+ */
+const RARITY_RANKS = [
+  { min: 0.995, stars: 3, label: 'めったに出ない形' },
+  { min: 0.97, stars: 2, label: 'なかなか出ない形' },
+  { min: 0, stars: 1, label: 'よく似た形' },
+] as const;
+
+/**
+ * 正解星座1つの較正結果
+ */
+export interface MatchCalibration {
+  /** この類似度以上なら、その星座と判定する */
+  threshold: number;
+  /** ランダムな点群の類似度（昇順） */
+  samples: number[];
+}
+
+/** 較正結果のキャッシュ（星座ID・形・点の数・星座線の有無ごと） */
+const calibrationCache = new Map<string, MatchCalibration>();
+
+/**
+ * 正解星座の形を表すキー
+ * パックを読み込み直したり作った形を差し替えたりして、同じ ID で形が変わったら別の較正にする
+ */
+function getShapeKey(constellationId: string): string {
+  const reference = getConstellationById(constellationId);
+  return reference ? JSON.stringify([reference.points, reference.edges]) : '';
+}
+
+/**
+ * 正解星座の較正結果を取得する（初回だけランダムな点群で計算する）
+ */
+export function getCalibration(constellationId: string, pointCount: number, options: MatchOptions = {}): MatchCalibration {
+  const useLines = (options.lines?.length ?? 0) > 0;
+  const key = `${constellationId}:${getShapeKey(constellationId)}:${pointCount}:${useLines}`;
+  const cached = calibrationCache.get(key);
+  if (cached) return cached;
+
+  const random = createRandom(CALIBRATION_SEED + pointCount);
+  // 線はユーザーが編集できるが、較正では星座作成時の既定（日付順）の線で代表させる
+  const sampleOptions = { ...options, lines: useLines ? generateDateOrderLines(pointCount) : [] };
+  const samples: number[] = [];
+  for (let i = 0; i < CALIBRATION_SAMPLES; i++) {
+    const points = Array.from({ length: pointCount }, () => ({ x: random(), y: random() }));
+    samples.push(matchAgainst(points, constellationId, sampleOptions)?.similarity ?? 0);
+  }
+  samples.sort((a, b) => a - b);
+
+  const calibration = {
+    threshold: samples[Math.floor(THRESHOLD_QUANTILE * (samples.length - 1))],
+    samples,
+  };
+  calibrationCache.set(key, calibration);
+  return calibration;
+}
+
+/**
+ * 類似度がランダムな点群の何割より高いか (0-1)
+ */
+export function getRarity(calibration: MatchCalibration, similarity: number): number {
+  const below = calibration.samples.findIndex((s) => s >= similarity);
+  return (below < 0 ? calibration.samples.length : below) / calibration.samples.length;
+}
+
+/**
+ * レア度を段階にする
+ */
+export function getRarityRank(rarity: number): { stars: number; label: string } {
+  return RARITY_RANKS.find((rank) => rarity >= rank.min) ?? RARITY_RANKS[RARITY_RANKS.length - 1];
+}
+
+/**
+ * 星座判定の結果
+ */
+export interface ConstellationMatchOutcome {
+  /** 判定した星座（どれにも似ていなければ null = 不思議な星座） */
+  match: MatchResult | null;
+  /** 類似度の高い順に並んだ全ての候補（レア度つき） */
+  candidates: MatchResult[];
+}
+
+/**
+ * 類似度の高い順に並んだ候補から、較正した閾値を超える最初のものを選ぶ
+ * どれも超えなければ null（不思議な星座）
+ * 星が少なすぎて形を比べられないとき（類似度がすべて 0 で、閾値も 0 になる）も null
+ * 候補にはレア度をつけて返す
+ */
+export function pickCalibratedMatch(
+  ranked: MatchResult[],
+  pointCount: number,
+  options: MatchOptions = {}
+): ConstellationMatchOutcome {
+  const candidates = ranked.map((result) => ({
+    ...result,
+    rarity: getRarity(getCalibration(result.constellationId, pointCount, options), result.similarity),
+  }));
+  if (pointCount < MIN_MATCHED_POINTS) {
+    return { match: null, candidates };
+  }
+  const match = candidates.find(
+    (result) => result.similarity > 0 &&
+      result.similarity >= getCalibration(result.constellationId, pointCount, options).threshold
+  ) ?? null;
+  return { match, candidates };
+}
+
+/**
+ * 全ての正解星座と比べ、較正した閾値で星座を判定する
+ */
+export function matchConstellation(userPoints: Point2D[], options: MatchOptions = {}): ConstellationMatchOutcome {
+  const ranked = calculateAllSimilarities(userPoints, options);
+  return pickCalibratedMatch(ranked, userPoints.length, options);
+}
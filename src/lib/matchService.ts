@@ -0,0 +1,125 @@
+// ============================================
+// 星座判定の非同期 API
+// Web Worker で判定し、Worker が使えない環境ではメインスレッドで同じ処理を行う
+// ============================================
+
+import { getCustomConstellations, type ReferenceConstellation } from '../data/constellations';
+import type { MatchOptions, Point2D } from './constellationMatcher';
+import { matchConstellation, type ConstellationMatchOutcome } from './matchCalibration';
+import MatchWorker from './matchWorker?worker';
+
+/**
+ * Worker への依頼
+ */
+export interface MatchWorkerRequest {
+  requestId: number;
+  userPoints: Point2D[];
+  options: MatchOptions;
+  /** ユーザーが作った正解星座・有効な星座パックの星座 */
+  customConstellations: ReferenceConstellation[];
+}
+
+/**
+ * Worker からの返事
+ */
+export type MatchWorkerResponse =
+  | { requestId: number; outcome: ConstellationMatchOutcome }
+  | { requestId: number; error: string };
+
+/** 使い回す Worker（キャンセルしたときは作り直す） */
+let worker: Worker | null = null;
+let nextRequestId = 1;
+
+/**
+ * Worker を取得する（使えない環境では null）
+ */
+function getWorker(): Worker | null {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined') return null;
+  try {
+    worker = new MatchWorker();
+    return worker;
+  } catch (error) {
+    console.error('星座判定の Worker を起動できませんでした:', error);
+    return null;
+  }
+}
+
+/**
+ * 中断されたことを表すエラー
+ */
+function createAbortError(): DOMException {
+  return new DOMException('星座判定を中断しました', 'AbortError');
+}
+
+/**
+ * 星座判定を行う
+ * signal で中断すると Worker を止め、AbortError で reject する
+ */
+export function runConstellationMatch(
+  userPoints: Point2D[],
+  options: MatchOptions = {},
+  signal?: AbortSignal
+): Promise<ConstellationMatchOutcome> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  const current = getWorker();
+  if (!current) {
+    // Worker が使えなければメインスレッドで判定する
+    return Promise.resolve(matchConstellation(userPoints, options));
+  }
+
+  const requestId = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      current.removeEventListener('message', handleMessage);
+      current.removeEventListener('error', handleError);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleMessage = (e: MessageEvent<MatchWorkerResponse>) => {
+      if (e.data.requestId !== requestId) return;
+      cleanup();
+      if ('error' in e.data) {
+        reject(new Error(e.data.error));
+      } else {
+        resolve(e.data.outcome);
+      }
+    };
+
+    // Worker 自体が読み込めなかったときなどは、メインスレッドでやり直す
+    const handleError = (e: ErrorEvent) => {
+      cleanup();
+      console.error('星座判定の Worker でエラーが発生しました:', e.message);
+      current.terminate();
+      worker = null;
+      try {
+        resolve(matchConstellation(userPoints, options));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    // 計算中の Worker は止められないので、捨てて次回作り直す
+    const handleAbort = () => {
+      cleanup();
+      current.terminate();
+      if (worker === current) worker = null;
+      reject(createAbortError());
+    };
+
+    current.addEventListener('message', handleMessage);
+    current.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort);
+
+    const request: MatchWorkerRequest = {
+      requestId,
+      userPoints,
+      options,
+      customConstellations: getCustomConstellations(),
+    };
+    current.postMessage(request);
+  });
+}
@@ -0,0 +1,24 @@
+// ============================================
+// 星座判定の Web Worker
+// 回転の探索や較正は重いので、p5 の描画を止めないよう別スレッドで動かす
+// ============================================
+
+import { setCustomConstellations } from '../data/constellations';
+import { matchConstellation } from './matchCalibration';
+import type { MatchWorkerRequest, MatchWorkerResponse } from './matchService';
+
+const scope = self as unknown as {
+  addEventListener(type: 'message', listener: (e: MessageEvent<MatchWorkerRequest>) => void): void;
+  postMessage(message: MatchWorkerResponse): void;
+};
+
+scope.addEventListener('message', (e) => {
+  const { requestId, userPoints, options, customConstellations } = e.data;
+  try {
+    // Worker はメインスレッドとモジュールを共有しないので、ユーザー作成の星座を毎回受け取って登録する
+    setCustomConstellations(customConstellations);
+    scope.postMessage({ requestId, outcome: matchConstellation(userPoints, options) });
+  } catch (error) {
+    scope.postMessage({ requestId, error: error instanceof Error ? error.message : String(error) });
+  }
+});
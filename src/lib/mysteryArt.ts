@@ -0,0 +1,74 @@
+// ============================================
+// 不思議な星座のイラスト
+// どの正解星座にも似ていない星座のために、星の配置から絵を手続き的に描く。
+// 同じ星からは毎回同じ絵ができるよう、乱数の種を星の座標から作る
+// ============================================
+
+import type { ConstellationLine, StarPosition } from '../types';
+import { CANVAS_CONSTANTS } from '../types';
+import { createRandom } from './random';
+
+/** 星雲の色（星の配置から1つ選ぶ） */
+const NEBULA_HUES = [200, 230, 265, 290, 320, 175];
+
+/**
+ * 星の座標から乱数の種を作る
+ */
+function seedFromPoints(points: StarPosition[]): number {
+  let hash = 2166136261;
+  for (const p of points) {
+    for (const v of [p.x, p.y]) {
+      hash ^= Math.round(v * 10000);
+      hash = Math.imul(hash, 16777619);
+    }
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 不思議な星座のイラストを SVG の data URL で作る
+ * 枠は星描画領域（300x400）と同じなので、重ねるときに変換はいらない
+ */
+export function createMysteryArtwork(points: StarPosition[], lines: ConstellationLine[]): string {
+  const width = CANVAS_CONSTANTS.STAR_AREA_WIDTH;
+  const height = CANVAS_CONSTANTS.STAR_AREA_HEIGHT;
+  const random = createRandom(seedFromPoints(points));
+  const hue = NEBULA_HUES[Math.floor(random() * NEBULA_HUES.length)];
+  const px = points.map((p) => ({ x: p.x * width, y: p.y * height }));
+
+  // 星ごとにぼんやりした星雲を置く
+  const nebulae = px.map((p, i) => {
+    const r = 30 + random() * 40;
+    const h = (hue + (random() - 0.5) * 50).toFixed(0);
+    return `<circle cx="${p.x.toFixed(1)}" cy="${p.y.toFixed(1)}" r="${r.toFixed(1)}" fill="url(#g${i})"/>`
+      + `<radialGradient id="g${i}"><stop offset="0" stop-color="hsl(${h},80%,70%)" stop-opacity="0.55"/>`
+      + `<stop offset="1" stop-color="hsl(${h},80%,60%)" stop-opacity="0"/></radialGradient>`;
+  });
+
+  // 星座線をゆるい曲線でなぞる
+  const curves = lines
+    .filter((line) => px[line.fromIndex] && px[line.toIndex])
+    .map((line) => {
+      const a = px[line.fromIndex];
+      const b = px[line.toIndex];
+      const bend = (random() - 0.5) * 0.6;
+      const cx = (a.x + b.x) / 2 - (b.y - a.y) * bend;
+      const cy = (a.y + b.y) / 2 + (b.x - a.x) * bend;
+      return `<path d="M${a.x.toFixed(1)} ${a.y.toFixed(1)} Q${cx.toFixed(1)} ${cy.toFixed(1)} ${b.x.toFixed(1)} ${b.y.toFixed(1)}"/>`;
+    });
+
+  // 星のまわりに小さなきらめきを散らす
+  const sparkles = px.flatMap((p) => Array.from({ length: 3 }, () => {
+    const angle = random() * Math.PI * 2;
+    const dist = 10 + random() * 35;
+    const r = 0.8 + random() * 1.6;
+    return `<circle cx="${(p.x + Math.cos(angle) * dist).toFixed(1)}" cy="${(p.y + Math.sin(angle) * dist).toFixed(1)}" r="${r.toFixed(1)}"/>`;
+  }));
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}">`
+    + nebulae.join('')
+    + `<g fill="none" stroke="hsl(${hue},70%,85%)" stroke-width="2" stroke-linecap="round" stroke-dasharray="1 6">${curves.join('')}</g>`
+    + `<g fill="hsl(${hue},60%,92%)">${sparkles.join('')}</g>`
+    + '</svg>';
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchIndex, searchEntries } from './search';
+import type { DiaryEntry } from '../types';
+import { UNASSIGNED_CONSTELLATION_ID } from '../types';
+
+const makeEntry = (id: number, memo: string): DiaryEntry => ({
+  id,
+  date: '2026-10-01',
+  memo,
+  starPosition: { x: 0.5, y: 0.5 },
+  constellationId: UNASSIGNED_CONSTELLATION_ID,
+  createdAt: new Date('2026-10-01T12:00:00'),
+});
+
+/** 検索結果の強調範囲の文字列 */
+const highlighted = (memo: string, query: string) => {
+  const [hit] = searchEntries(buildSearchIndex([makeEntry(1, memo)]), query);
+  return hit ? hit.snippet.slice(hit.highlight.start, hit.highlight.start + hit.highlight.length) : null;
+};
+
+describe('searchEntries', () => {
+  it('カタカナ・全角英字の違いを無視して一致箇所を強調する', () => {
+    expect(highlighted('今日はＣａｆｅでケーキ', 'cafe')).toBe('Ｃａｆｅ');
+    expect(highlighted('今日はＣａｆｅでケーキ', 'けーき')).toBe('ケーキ');
+  });
+
+  it('絵文字（サロゲートペア）の後ろでも強調範囲がずれない', () => {
+    expect(highlighted('🎂🎉誕生日のケーキ', 'ケーキ')).toBe('ケーキ');
+  });
+
+  it('1文字が複数の文字に展開される互換文字にも一致し、元の文字を強調する', () => {
+    expect(highlighted('㍻の思い出と写真', '平成')).toBe('㍻');
+    expect(highlighted('㍻の思い出と写真', '写真')).toBe('写真');
+  });
+
+  it('数学用の英字（2単位の文字が1単位に縮む）の後ろでも強調範囲がずれない', () => {
+    expect(highlighted('𝐀𝐁𝐂のあとで海へ', '海')).toBe('海');
+  });
+});
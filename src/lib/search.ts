@@ -0,0 +1,180 @@
+// ============================================
+// メモの全文検索
+// 日本語は単語の区切りがないため、文字 bi-gram の転置インデックスで候補を絞り、
+// 正規化した本文に部分一致するものだけを結果にする
+// ============================================
+
+import type { DiaryEntry } from '../types';
+
+/** インデックスに使う n-gram の長さ */
+const NGRAM_SIZE = 2;
+
+/**
+ * 検索結果の1件
+ */
+export interface SearchHit {
+  entry: DiaryEntry;
+  /** 一致箇所の前後を切り出したメモ */
+  snippet: string;
+  /** snippet 内で強調する範囲 */
+  highlight: { start: number; length: number };
+}
+
+/**
+ * 検索インデックス
+ */
+export interface SearchIndex {
+  /** n-gram → それを含むエントリ ID */
+  postings: Map<string, Set<number>>;
+  /** エントリ ID → 正規化したメモ */
+  normalizedMemos: Map<number, NormalizedText>;
+  entries: Map<number, DiaryEntry>;
+}
+
+/**
+ * 正規化した文字列と、その各位置が元の文字列のどこから来たか
+ */
+export interface NormalizedText {
+  text: string;
+  /** text の UTF-16 の各位置に対応する、元の文字列での文字の範囲（UTF-16 単位） */
+  sourceStart: number[];
+  sourceEnd: number[];
+}
+
+/**
+ * 検索用に文字列を正規化し、元の文字列の位置との対応もあわせて返す
+ * 全角英数・半角カナを揃え（NFKC）、カタカナはひらがなに、英字は小文字にする。
+ * 「㍻」→「平成」のように文字数が変わることがあるので、一致箇所は対応表で元の位置に戻す
+ */
+export function normalizeWithSourceMap(text: string): NormalizedText {
+  const result: NormalizedText = { text: '', sourceStart: [], sourceEnd: [] };
+  let offset = 0;
+
+  for (const ch of text) {
+    const converted = Array.from(ch.normalize('NFKC').toLowerCase())
+      .map((c) => {
+        const code = c.charCodeAt(0);
+        // カタカナ（ァ〜ヶ）→ ひらがな
+        return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : c;
+      })
+      .join('');
+    for (let i = 0; i < converted.length; i++) {
+      result.sourceStart.push(offset);
+      result.sourceEnd.push(offset + ch.length);
+    }
+    result.text += converted;
+    offset += ch.length;
+  }
+  return result;
+}
+
+/**
+ * 検索用に文字列を正規化する（位置の対応が要らないとき）
+ */
+export function normalizeText(text: string): string {
+  return normalizeWithSourceMap(text).text;
+}
+
+/**
+ * 文字列を n-gram に分割する（n より短い場合はそのまま1つ）
+ */
+function toNgrams(text: string, n: number = NGRAM_SIZE): string[] {
+  const chars = Array.from(text);
+  if (chars.length <= n) return chars.length > 0 ? [chars.join('')] : [];
+  const grams: string[] = [];
+  for (let i = 0; i <= chars.length - n; i++) {
+    grams.push(chars.slice(i, i + n).join(''));
+  }
+  return grams;
+}
+
+/**
+ * 日記エントリから検索インデックスを作る
+ * （メモが空のエントリ・失われた星は対象外）
+ */
+export function buildSearchIndex(entries: DiaryEntry[]): SearchIndex {
+  const index: SearchIndex = {
+    postings: new Map(),
+    normalizedMemos: new Map(),
+    entries: new Map(),
+  };
+
+  for (const entry of entries) {
+    if (entry.id === undefined || entry.isLost || !entry.memo) continue;
+    const normalized = normalizeWithSourceMap(entry.memo);
+    index.normalizedMemos.set(entry.id, normalized);
+    index.entries.set(entry.id, entry);
+
+    // 1文字の検索にも使えるよう、1-gram と bi-gram の両方を登録する
+    for (const gram of [...toNgrams(normalized.text, 1), ...toNgrams(normalized.text)]) {
+      let ids = index.postings.get(gram);
+      if (!ids) {
+        ids = new Set();
+        index.postings.set(gram, ids);
+      }
+      ids.add(entry.id);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * 一致箇所の前後を切り出す
+ */
+function makeSnippet(memo: string, start: number, length: number, context: number = 16): Omit<SearchHit, 'entry'> {
+  const chars = Array.from(memo);
+  // start / length は UTF-16 単位なので文字単位に直す
+  const charStart = Array.from(memo.slice(0, start)).length;
+  const charLength = Array.from(memo.slice(start, start + length)).length;
+
+  const from = Math.max(0, charStart - context);
+  const to = Math.min(chars.length, charStart + charLength + context);
+  const prefix = from > 0 ? '…' : '';
+  const suffix = to < chars.length ? '…' : '';
+  const body = chars.slice(from, to).join('');
+
+  return {
+    snippet: prefix + body + suffix,
+    highlight: {
+      start: prefix.length + chars.slice(from, charStart).join('').length,
+      length: chars.slice(charStart, charStart + charLength).join('').length,
+    },
+  };
+}
+
+/**
+ * メモを検索する
+ * 空白で区切った語はすべて含むもの（AND）を、新しい日付順に返す
+ */
+export function searchEntries(index: SearchIndex, query: string, limit: number = 50): SearchHit[] {
+  const terms = normalizeText(query).split(/\s+/).filter((t) => t.length > 0);
+  if (terms.length === 0) return [];
+
+  // n-gram の転置リストを掛け合わせて候補を絞る
+  const grams = terms.flatMap((term) => toNgrams(term));
+  let candidates = [...(index.postings.get(grams[0]) ?? [])];
+  for (const gram of grams.slice(1)) {
+    const ids = index.postings.get(gram);
+    candidates = ids ? candidates.filter((id) => ids.has(id)) : [];
+    if (candidates.length === 0) return [];
+  }
+
+  const hits: SearchHit[] = [];
+  for (const id of candidates) {
+    const normalized = index.normalizedMemos.get(id)!;
+    // n-gram が揃っていても並びが違う場合があるので、実際に部分一致するか確かめる
+    if (!terms.every((term) => normalized.text.includes(term))) continue;
+
+    const entry = index.entries.get(id)!;
+    // 正規化後の一致箇所を、元のメモでの範囲に戻す
+    const start = normalized.text.indexOf(terms[0]);
+    const sourceStart = normalized.sourceStart[start];
+    const sourceEnd = normalized.sourceEnd[start + terms[0].length - 1];
+    hits.push({ entry, ...makeSnippet(entry.memo, sourceStart, sourceEnd - sourceStart) });
+  }
+
+  return hits
+    .sort((a, b) => b.entry.date.localeCompare(a.entry.date))
+    .slice(0, limit);
+}
@@ -27,8 +27,26 @@ export const CANVAS_CONSTANTS = {
   STAR_AREA_HEIGHT: 400,
   /** クロッピングのアスペクト比 */
   CROP_ASPECT: 3 / 4,
+  /** これより縮小すると全体表示（星座名を表示し、タップで星座に寄る） */
+  OVERVIEW_SCALE: 0.75,
 } as const;
 
+/**
+ * 星空のカメラ
+ * 画面上の位置 = 星空（ワールド）上の位置 × scale + (x, y)
+ */
+export interface Camera {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/**
+ * 星座に属していない日記エントリの constellationId
+ * （IndexedDB は undefined をインデックスできないため 0 を使う）
+ */
+export const UNASSIGNED_CONSTELLATION_ID = 0;
+
 /**
  * 星の位置情報（写真上の相対座標）
  * x, y は 0〜1 の範囲で正規化された値
@@ -38,24 +56,91 @@ export interface StarPosition {
   y: number;
 }
 
+/**
+ * その日の気分
+ */
+export type Mood = 'great' | 'good' | 'calm' | 'tired' | 'sad';
+
 /**
  * 1日分の日記エントリ
+ * 写真は容量が大きいため DiaryPhoto として別テーブルに保存する
  */
 export interface DiaryEntry {
   id?: number;
   /** 日付（YYYY-MM-DD 形式） */
   date: string;
-  /** 写真データ */
-  photoBlob: Blob;
   /** ひとことメモ */
   memo: string;
   /** 写真上の星の位置 */
   starPosition: StarPosition;
+  /** 所属する星座の ID（未割り当ては UNASSIGNED_CONSTELLATION_ID） */
+  constellationId: number;
   /** 作成日時 */
   createdAt: Date;
   isConnectedToPrevious?: boolean;
+  /**
+   * タグ（「家族」「旅行」など）
+   * 星空の絞り込みにインデックスを使うため、金庫モードでも暗号化しない
+   */
+  tags?: string[];
+  /** その日の気分（タグと同じく暗号化しない） */
+  mood?: Mood;
+  /**
+   * 削除されたが星座の形を保つために残している「失われた星」かどうか
+   * （メモと写真は削除済みで、位置と日付だけが残る）
+   */
+  isLost?: boolean;
+  /**
+   * 暗号化したメモ（金庫モードのときだけ。このとき memo は空文字）
+   * 星空を描くのに必要な位置と日付は暗号化しない
+   */
+  encryptedMemo?: EncryptedPayload;
+}
+
+/**
+ * 日記エントリの写真（DiaryEntry と 1:1）
+ */
+export interface DiaryPhoto {
+  /** 対応する DiaryEntry の ID */
+  entryId: number;
+  /** 写真データ（encryption があるときは暗号化されたバイト列） */
+  photoBlob: Blob;
+  /** 金庫モードで暗号化した写真の復号情報 */
+  encryption?: {
+    iv: Uint8Array<ArrayBuffer>;
+    /** 元の写真の MIME タイプ */
+    mimeType: string;
+  };
+}
+
+/**
+ * AES-GCM で暗号化したデータ
+ */
+export interface EncryptedPayload {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
 }
 
+/**
+ * 金庫モード（パスフレーズ保護）の情報
+ * 鍵そのものは保存せず、パスフレーズから毎回導出する
+ */
+export interface VaultMeta {
+  /** PBKDF2 のソルト */
+  salt: Uint8Array<ArrayBuffer>;
+  /** PBKDF2 の反復回数 */
+  iterations: number;
+  /** パスフレーズが正しいか確かめるための暗号文 */
+  verifier: EncryptedPayload;
+}
+
+/**
+ * 星座に属するエントリを削除するときの星座の扱い
+ * - dissolve: 星座を解散し、残りのエントリを未割り当てに戻す
+ * - keep-lost-star: 星座を残し、削除したエントリを「失われた星」として残す
+ */
+export type ConstellationDeleteMode = 'dissolve' | 'keep-lost-star';
+
 /**
  * 完成した星座
  */
@@ -63,16 +148,65 @@ export interface Constellation {
   id?: number;
   /** ユーザーがつけた星座の名前 */
   name: string;
-  /** 紐づく DiaryEntry の ID（7件） */
+  /** 紐づく DiaryEntry の ID（作成したときの設定の星の数） */
   entryIds: number[];
   /** 星をつなぐ線の配列 */
   lines: ConstellationLine[];
   /** マッチした正解星座のID（判定結果） */
   matchedConstellationId?: string;
+  /** 正解星座のイラストを実際の星に重ねる変換 */
+  overlayTransform?: OverlayTransform;
+  /** 判定したときの類似度 (0-1) */
+  matchSimilarity?: number;
+  /** 判定したときのレア度（ランダムな点群の何割より似ていたか、0-1） */
+  matchRarity?: number;
+  /**
+   * 星空に並べる順番（小さいほど左）
+   * 並べ替えたことのない星座にはなく、並べ替えた星座の後ろに作成順で並ぶ
+   */
+  sortOrder?: number;
   /** 作成日時 */
   createdAt: Date;
 }
 
+/**
+ * 正解星座のイラスト（星描画領域と同じ大きさの枠）を実際の星に重ねる変換
+ * 枠の左上を原点とした px 単位の CSS matrix(a, b, c, d, e, f)
+ */
+export interface OverlayTransform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+/**
+ * ゴミ箱に入れたデータのスナップショット
+ * 削除・変更される直前の行をそのまま保存し、復元時に書き戻す
+ */
+export interface TrashSnapshot {
+  diaryEntries: DiaryEntry[];
+  photos: DiaryPhoto[];
+  constellations: Constellation[];
+}
+
+/**
+ * ゴミ箱の1項目
+ */
+export interface TrashItem {
+  id?: number;
+  /** 削除したものの種類 */
+  kind: 'entry' | 'constellation' | 'all';
+  /** 一覧に表示する名前 */
+  label: string;
+  /** 削除日時 */
+  deletedAt: Date;
+  /** 復元用のスナップショット */
+  snapshot: TrashSnapshot;
+}
+
 /**
  * 星座キャンバス上の星（描画用）
  */
@@ -83,6 +217,8 @@ export interface Star {
   x: number;
   /** キャンバス上の Y 座標 */
   y: number;
+  /** 属する星座グループ（完成した星座、続いて作成中のまとまりの順） */
+  groupIndex: number;
   /** 星の明るさ（0〜255） */
   brightness: number;
   /** 星のサイズ */
@@ -93,6 +229,8 @@ export interface Star {
   isNewest?: boolean;
   /** ラベル表示用の日付 (MM/DD) */
   dateLabel?: string;
+  /** 絞り込みに一致せず暗く表示するかどうか */
+  dimmed?: boolean;
 }
 
 /**
@@ -121,15 +259,106 @@ export interface ConstellationData {
 // アプリケーション状態の型
 // ============================================
 
+/**
+ * 未割り当ての星を星座にまとめる方法
+ * - count: 日記 N 件ごと
+ * - week: 暦の1週間（月〜日）ごと
+ */
+export type ConstellationGrouping = 'count' | 'week';
+
+/**
+ * ユーザー設定（settings テーブルにキーごとに保存）
+ */
+export interface AppSettings {
+  /** 1日の区切りの時刻（0〜23時）。夜更かしの人は 3 などにする */
+  dayEndHour: number;
+  /** 星座のまとめ方 */
+  constellationGrouping: ConstellationGrouping;
+  /** 1つの星座の星の数（日記 N 件ごとにまとめるときの N） */
+  constellationSize: number;
+  /** ゴミ箱に入れたものを完全に削除するまでの日数 */
+  trashRetentionDays: number;
+  /** 金庫モードの情報（無効なら null） */
+  vault: VaultMeta | null;
+}
+
+/**
+ * settings テーブルの1行
+ */
+export interface SettingRecord<K extends keyof AppSettings = keyof AppSettings> {
+  key: K;
+  value: AppSettings[K];
+}
+
+/**
+ * 星空の絞り込み条件（null の項目は条件なし）
+ */
+export interface SkyFilter {
+  tag: string | null;
+  mood: Mood | null;
+}
+
+/**
+ * ユーザーが作った正解星座（判定に使う形とイラスト）
+ */
+export interface CustomReferenceConstellation {
+  id?: number;
+  /** 判定結果として保存する星座ID（組み込みと区別するため 'custom-' で始まる） */
+  constellationId: string;
+  name: string;
+  /** 0-1 で正規化した点群（イラストの 300x400 の枠が基準） */
+  points: StarPosition[];
+  /** 星座線（points のインデックスの組） */
+  edges: [number, number][];
+  /** イラスト（SVG） */
+  svgBlob: Blob;
+  createdAt: Date;
+}
+
+/**
+ * 星座パックに含まれる1つの星座
+ */
+export interface PackConstellation {
+  /** パック内で一意な ID */
+  id: string;
+  name: string;
+  /** 0-1 で正規化した点群 */
+  points: StarPosition[];
+  /** 星座線（points のインデックスの組） */
+  edges: [number, number][];
+  /** イラスト（SVG 文字列） */
+  svg: string;
+}
+
+/**
+ * 読み込んだ星座パック（テーマごとにまとめた正解星座）
+ */
+export interface ConstellationPack {
+  /** パックの ID（同じ ID のパックを読み込むと置き換える） */
+  packId: string;
+  name: string;
+  description?: string;
+  /** 判定に使うかどうか */
+  enabled: boolean;
+  constellations: PackConstellation[];
+  importedAt: Date;
+}
+
 /**
  * アプリの画面状態
  */
 export type AppView =
   | 'home'           // ホーム画面
   | 'entry'          // 日記入力画面
+  | 'entry-edit'     // 日記編集画面
   | 'star-placer'    // 星配置画面
   | 'constellation'  // 星座表示画面
-  | 'gallery';       // 過去の星座一覧
+  | 'gallery'        // 過去の星座一覧
+  | 'settings'       // 設定（バックアップなど）
+  | 'trash'          // ゴミ箱
+  | 'search'         // メモの検索
+  | 'custom-constellation' // 正解星座の作成
+  | 'constellation-detail'; // 完成した星座の管理
 
 /**
  * 日記入力フォームの状態